@@ -1,30 +1,395 @@
 #!/usr/bin/env node
 
-import { GoogleGenerativeAI } from '@google/generative-ai';
-import { exec } from 'child_process';
-import { promisify } from 'util';
+import { GoogleGenerativeAI, GoogleGenerativeAIError, GoogleGenerativeAIFetchError, GoogleGenerativeAIResponseError } from '@google/generative-ai';
+import { spawn } from 'child_process';
+import { createHash } from 'crypto';
 import * as dotenv from 'dotenv';
 import * as path from 'path';
 import * as fs from 'fs';
 import * as os from 'os';
 
-// Load environment variables
-dotenv.config();
+interface GitExecOptions {
+  input?: string;
+  maxBuffer?: number;
+  cwd?: string;
+  // Added to the current environment
+  env?: NodeJS.ProcessEnv;
+}
+
+// Runs git with an argument array (no shell), so messages and paths are never interpreted
+function execGit(args: string[], options: GitExecOptions = {}): Promise<{ stdout: string; stderr: string }> {
+  const maxBuffer = options.maxBuffer ?? 1024 * 1024;
+
+  return new Promise((resolve, reject) => {
+    const child = spawn('git', args, {
+      stdio: ['pipe', 'pipe', 'pipe'],
+      cwd: options.cwd,
+      env: options.env ? { ...process.env, ...options.env } : process.env
+    });
+    const stdoutChunks: Buffer[] = [];
+    const stderrChunks: Buffer[] = [];
+    let stdoutLength = 0;
+    let exceeded = false;
+
+    child.stdout.on('data', (chunk: Buffer) => {
+      stdoutLength += chunk.length;
+      if (stdoutLength > maxBuffer) {
+        exceeded = true;
+        child.kill();
+        return;
+      }
+      stdoutChunks.push(chunk);
+    });
+    child.stderr.on('data', (chunk: Buffer) => stderrChunks.push(chunk));
+
+    child.on('error', reject);
+    child.on('close', (code) => {
+      const stdout = Buffer.concat(stdoutChunks).toString('utf8');
+      const stderr = Buffer.concat(stderrChunks).toString('utf8');
+
+      if (exceeded) {
+        reject(new Error(`git ${args[0]}: stdout maxBuffer length exceeded`));
+      } else if (code !== 0) {
+        reject(new Error(`Command failed: git ${args.join(' ')}\n${stderr.trim()}`));
+      } else {
+        resolve({ stdout, stderr });
+      }
+    });
+
+    // Ignore EPIPE when git exits before reading all input
+    child.stdin.on('error', () => {});
+    child.stdin.end(options.input ?? '');
+  });
+}
+
+// Errors and Output Modes
+// Exit codes scripts can tell apart; anything else exits with 1
+const EXIT_CODES = {
+  error: 1,
+  nothingStaged: 2,
+  config: 3,
+  model: 4
+};
+
+type ErrorCode = 'nothing_staged' | 'config' | 'model' | 'usage' | 'git';
+
+class CommitGeniusError extends Error {
+  constructor(message: string, readonly code: ErrorCode, readonly exitCode: number) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+class NoStagedChangesError extends CommitGeniusError {
+  constructor(message: string = 'No staged changes found. Please stage your changes first with: git add <files>') {
+    super(message, 'nothing_staged', EXIT_CODES.nothingStaged);
+  }
+}
+
+// Missing API keys and invalid settings, templates or patterns
+class ConfigError extends CommitGeniusError {
+  // How to fix it, e.g. where to set a missing API key
+  constructor(message: string, readonly hint?: string) {
+    super(message, 'config', EXIT_CODES.config);
+  }
+}
+
+// --block-on-secrets (redaction.blockOnSecrets) found something; nothing was sent to the model
+class SecretsFoundError extends ConfigError {
+  constructor(message: string, readonly findings: RedactionFinding[]) {
+    super(message);
+  }
+}
+
+// A git command failed: not a repository, a failed commit, an unreadable diff
+class GitError extends CommitGeniusError {
+  constructor(message: string) {
+    super(message, 'git', EXIT_CODES.error);
+  }
+}
+
+// Unknown commands and options, missing or extra arguments
+class UsageError extends CommitGeniusError {
+  constructor(message: string, readonly command: string = '') {
+    super(message, 'usage', EXIT_CODES.error);
+  }
+
+  get hint(): string {
+    return `Run "genius ${this.command ? `${this.command} ` : ''}--help" for usage.`;
+  }
+}
+
+// Why a model request failed. Decides whether it's retried and which hint is shown
+type ModelFailureKind = 'quota' | 'auth' | 'safety' | 'network' | 'timeout' | 'server' | 'request' | 'unknown';
+
+const MODEL_FAILURE_HINTS: Record<ModelFailureKind, string | undefined> = {
+  quota: 'The provider is rate limiting you or your quota is used up. Wait a minute, check your plan and billing, or add "fallbackModels" to your config.',
+  auth: 'The API key was rejected. Check which key is used with "genius config --show-effective" and that it belongs to this provider.',
+  safety: 'The provider\'s safety filters blocked the response. Add context with --note, or try another model.',
+  network: 'Could not reach the provider. Check your connection, proxy and the provider\'s base URL.',
+  timeout: 'The model did not answer in time. Raise "request.timeoutSeconds" (COMMIT_GENIUS_TIMEOUT) or use a faster model.',
+  server: 'The provider had a server error. Try again later, or add "fallbackModels" to your config.',
+  request: 'The provider rejected the request. Check the model name (--model) and the provider settings.',
+  unknown: undefined
+};
+
+// A failed request to a model provider, classified so it can be retried or explained
+class ModelRequestError extends Error {
+  readonly transient: boolean;
+
+  constructor(message: string, readonly kind: ModelFailureKind, readonly status?: number, readonly retryAfterMs?: number, transient?: boolean) {
+    super(message);
+    this.name = 'ModelRequestError';
+    // Rate limits, outages and dropped connections usually pass; a bad key or a blocked prompt doesn't
+    this.transient = transient ?? ['quota', 'network', 'timeout', 'server'].includes(kind);
+  }
+}
+
+// The model call failed or returned something unusable
+class ModelError extends CommitGeniusError {
+  readonly kind: ModelFailureKind;
+
+  constructor(message: string, cause?: unknown) {
+    super(message, 'model', EXIT_CODES.model);
+    this.kind = cause instanceof ModelRequestError ? cause.kind : 'unknown';
+  }
+
+  get hint(): string | undefined {
+    return MODEL_FAILURE_HINTS[this.kind];
+  }
+}
+
+// text: status lines and results on stdout (default)
+// quiet: only the result on stdout, status lines on stderr (--quiet, --print)
+// json: one JSON object on stdout, status lines on stderr (--json)
+type OutputMode = 'text' | 'quiet' | 'json';
+
+let outputMode: OutputMode = 'text';
+
+function setOutputMode(mode: OutputMode): void {
+  outputMode = mode;
+}
+
+function printOutput(text: string): void {
+  // Results (messages, pull requests, changelogs) always go to stdout
+  process.stdout.write(`${text}\n`);
+}
+
+function writePrompt(text: string): void {
+  // Prompts are status output: they stay off stdout when it carries only the result
+  (outputMode === 'text' ? process.stdout : process.stderr).write(text);
+}
+
+// Where status lines go. The CLI prints them; library callers can pass their own logger
+interface Logger {
+  info(message: string): void;
+  warn(message: string): void;
+}
+
+const consoleLogger: Logger = {
+  info: message => console.log(message),
+  warn: message => console.warn(message)
+};
+
+// The CLI's status lines in --quiet and --json mode
+const stderrLogger: Logger = {
+  info: message => console.error(message),
+  warn: message => console.warn(message)
+};
+
+const silentLogger: Logger = {
+  info: () => {},
+  warn: () => {}
+};
+
+let logger: Logger = consoleLogger;
+
+async function withLogger<T>(custom: Logger | undefined, fn: () => Promise<T>): Promise<T> {
+  // Config loaders and git helpers report through the module logger, so it's swapped for the call
+  if (!custom) {
+    return fn();
+  }
+
+  const previous = logger;
+  logger = custom;
+  try {
+    return await fn();
+  } finally {
+    logger = previous;
+  }
+}
+
+function exitWithError(error: unknown): never {
+  const message = error instanceof Error ? error.message : String(error);
+  const exitCode = error instanceof CommitGeniusError ? error.exitCode : EXIT_CODES.error;
+
+  const details: { kind?: ModelFailureKind; hint?: string } = error instanceof ModelError ? { kind: error.kind, hint: error.hint } :
+    error instanceof UsageError || error instanceof ConfigError ? { hint: error.hint } : {};
+
+  if (outputMode === 'json') {
+    printOutput(JSON.stringify({
+      error: { code: error instanceof CommitGeniusError ? error.code : 'error', message, ...details },
+      exitCode
+    }, null, 2));
+  } else {
+    console.error('❌ Error:', message);
+    if (details.hint) {
+      console.error(`💡 ${details.hint}`);
+    }
+  }
+  process.exit(exitCode);
+}
+
+async function commitWithMessage(message: string, extraArgs: string[] = []): Promise<void> {
+  // Pass the message on stdin and keep it verbatim so quotes, "#" lines and
+  // multiple paragraphs survive exactly as generated
+  const input = message.endsWith('\n') ? message : `${message}\n`;
+  await execGit(['commit', '--cleanup=verbatim', '-F', '-', ...extraArgs], { input });
+}
+
+type ProviderName = 'gemini' | 'openai' | 'ollama' | 'replay' | 'stub';
+
+type MessageStyle = 'subject' | 'full';
+
+const SUPPORTED_PROVIDERS: ProviderName[] = ['gemini', 'openai', 'ollama', 'replay', 'stub'];
+
+interface OpenAIProviderConfig {
+  apiKey?: string;
+  model?: string;
+  baseUrl?: string;
+}
+
+interface OllamaProviderConfig {
+  model?: string;
+  baseUrl?: string;
+}
+
+interface RequestConfig {
+  timeoutSeconds?: number;
+  maxRetries?: number;
+  backoffSeconds?: number;
+  maxRetryDelaySeconds?: number;
+}
+
+interface ReplayProviderConfig {
+  dir?: string;
+}
+
+interface StubProviderConfig {
+  message?: string;
+}
+
+interface RedactionConfig {
+  enabled?: boolean;
+  blockOnSecrets?: boolean;
+  disabledRules?: string[];
+  allowlist?: string[];
+  rules?: { name: string; pattern: string }[];
+}
+
+interface TicketPatternConfig {
+  name: string;
+  pattern: string;
+  flags?: string;
+  normalize?: string;
+}
+
+interface TicketsConfig {
+  branchPatterns?: TicketPatternConfig[];
+  prefixPatterns?: TicketPatternConfig[];
+  defaultPatterns?: boolean;
+}
+
+type RefsTrailerMode = 'none' | 'refs' | 'closes';
+
+interface CoAuthorConfig {
+  alias: string;
+  name: string;
+  email: string;
+}
+
+interface TrailersConfig {
+  refs?: RefsTrailerMode;
+  signOff?: boolean;
+  bannerAsTrailer?: boolean;
+  bannerTrailer?: string;
+  coAuthors?: CoAuthorConfig[];
+}
 
-const execAsync = promisify(exec);
+interface CacheConfig {
+  enabled?: boolean;
+  maxAgeHours?: number;
+}
+
+interface PullRequestConfig {
+  ticketUrl?: string;
+}
+
+interface LearnStyleConfig {
+  enabled?: boolean;
+  examples?: number;
+  history?: number;
+}
+
+interface LintConfig {
+  enabled?: boolean;
+  maxRetries?: number;
+}
 
 interface Config {
+  provider?: ProviderName;
   apiKey?: string;
   model?: string;
+  openai?: OpenAIProviderConfig;
+  ollama?: OllamaProviderConfig;
+  replay?: ReplayProviderConfig;
+  stub?: StubProviderConfig;
+  request?: RequestConfig;
+  fallbackModels?: string[];
   prefixFormat?: 'brackets' | 'colon';
+  messageStyle?: MessageStyle;
   autoPrefixFromBranch?: boolean;
+  tickets?: TicketsConfig;
   banner?: boolean;
   bannerText?: string;
+  chunkTokenBudget?: number;
+  maxChunks?: number;
+  ignore?: string[];
+  ignoreDefaults?: boolean;
+  review?: boolean;
+  candidates?: number;
+  redaction?: RedactionConfig;
+  trailers?: TrailersConfig;
+  cache?: CacheConfig;
+  promptTemplate?: string;
+  pr?: PullRequestConfig;
+  learnStyle?: LearnStyleConfig;
+  lint?: LintConfig;
+}
+
+interface CommitMessageParts {
+  subject: string;
+  body: string;
+  footers: string[];
 }
 
+// The questions of interactive mode; notes added with --note are "general"
+type NoteCategory = 'problem' | 'environment' | 'references' | 'business' | 'technical' | 'general';
+
+const NOTE_CATEGORIES: { category: NoteCategory; title: string }[] = [
+  { category: 'problem', title: 'Problem solved' },
+  { category: 'environment', title: 'Affected environment' },
+  { category: 'references', title: 'References' },
+  { category: 'business', title: 'Business context' },
+  { category: 'technical', title: 'Technical details' },
+  { category: 'general', title: 'Other notes' }
+];
+
 interface StagedNote {
   message: string;
   timestamp: Date;
+  // Missing in notes saved by older versions, which count as "general"
+  category?: NoteCategory;
 }
 
 interface StagedNotes {
@@ -39,20 +404,20 @@ let configLoaded = false;
 // Staged Notes System
 async function getNotesFilePath(): Promise<string> {
   try {
-    const { stdout } = await execAsync('git rev-parse --git-dir');
+    const { stdout } = await execGit(['rev-parse', '--git-dir']);
     const gitDir = stdout.trim();
     return path.join(gitDir, 'commit-genius-notes.json');
   } catch (error) {
-    throw new Error('Not in a git repository. Staged notes require a git repository.');
+    throw new GitError('Not in a git repository. Staged notes require a git repository.');
   }
 }
 
 async function getCurrentRepoPath(): Promise<string> {
   try {
-    const { stdout } = await execAsync('git rev-parse --show-toplevel');
+    const { stdout } = await execGit(['rev-parse', '--show-toplevel']);
     return stdout.trim();
   } catch (error) {
-    throw new Error('Not in a git repository.');
+    throw new GitError('Not in a git repository.');
   }
 }
 
@@ -91,20 +456,101 @@ async function saveStagedNotes(notes: StagedNote[]): Promise<void> {
 
     fs.writeFileSync(notesFilePath, JSON.stringify(stagedNotes, null, 2));
   } catch (error) {
-    throw new Error(`Failed to save staged notes: ${error instanceof Error ? error.message : error}`);
+    throw new GitError(`Failed to save staged notes: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function parseNoteCategory(value: string): NoteCategory {
+  const category = NOTE_CATEGORIES.find(entry => entry.category === value.toLowerCase());
+  if (!category) {
+    throw new UsageError(`Unknown note type "${value}". Use one of: ${NOTE_CATEGORIES.map(entry => entry.category).join(', ')}`, 'notes');
+  }
+  return category.category;
+}
+
+function getNoteKey(note: StagedNote): string {
+  return `${new Date(note.timestamp).toISOString()}\0${note.message}`;
+}
+
+function formatNotesForPrompt(notes: StagedNote[]): string {
+  const bullets = (items: StagedNote[]) => items.map(note => `• ${note.message}`).join('\n');
+
+  // Uncategorized notes stay a plain list, like before categories existed
+  if (notes.every(note => (note.category || 'general') === 'general')) {
+    return bullets(notes);
   }
+
+  return NOTE_CATEGORIES
+    .map(({ category, title }) => ({ title, items: notes.filter(note => (note.category || 'general') === category) }))
+    .filter(group => group.items.length > 0)
+    .map(group => `${group.title}:\n${bullets(group.items)}`)
+    .join('\n\n');
 }
 
-async function addStagedNote(message: string): Promise<void> {
+async function addStagedNote(message: string, category: NoteCategory = 'general'): Promise<void> {
   const notes = await loadStagedNotes();
   const newNote: StagedNote = {
     message: message.trim(),
-    timestamp: new Date()
+    timestamp: new Date(),
+    category
   };
 
   notes.push(newNote);
   await saveStagedNotes(notes);
-  console.log(`📝 Added note: ${message}`);
+  logger.info(`📝 Added ${category === 'general' ? '' : `${category} `}note: ${message}`);
+}
+
+async function getStagedNoteIndex(position: string): Promise<{ notes: StagedNote[]; index: number }> {
+  const notes = await loadStagedNotes();
+  const index = Number(position) - 1;
+
+  if (!/^\d+$/.test(position) || index < 0 || index >= notes.length) {
+    throw new UsageError(notes.length === 0 ?
+      'There are no staged notes' :
+      `Note ${position} doesn't exist. Choose a number between 1 and ${notes.length} (see "genius notes list")`, 'notes');
+  }
+
+  return { notes, index };
+}
+
+async function editStagedNote(position: string, message?: string, category?: NoteCategory): Promise<void> {
+  const { notes, index } = await getStagedNoteIndex(position);
+  const note = notes[index];
+
+  // Without a new text, edit the note in the same editor git uses
+  const newMessage = message ?? (category ? note.message : await editMessageInEditor(note.message));
+  if (!newMessage.trim()) {
+    logger.info('ℹ️  Empty note - left unchanged (use "genius notes rm" to remove it)');
+    return;
+  }
+
+  notes[index] = { ...note, message: newMessage.trim(), category: category || note.category };
+  await saveStagedNotes(notes);
+  logger.info(`✏️  Updated note ${position}: ${notes[index].message}`);
+}
+
+async function removeStagedNote(position: string): Promise<void> {
+  const { notes, index } = await getStagedNoteIndex(position);
+  const [removed] = notes.splice(index, 1);
+  await saveStagedNotes(notes);
+  logger.info(`🗑️  Removed note ${position}: ${removed.message}`);
+}
+
+async function removeUsedStagedNotes(used: StagedNote[]): Promise<void> {
+  // Notes added while the message was being generated or reviewed stay for the next commit
+  const usedKeys = new Set(used.map(getNoteKey));
+  const remaining = (await loadStagedNotes()).filter(note => !usedKeys.has(getNoteKey(note)));
+
+  if (remaining.length === 0) {
+    const notesFilePath = await getNotesFilePath();
+    if (fs.existsSync(notesFilePath)) {
+      fs.unlinkSync(notesFilePath);
+    }
+  } else {
+    await saveStagedNotes(remaining);
+  }
+
+  logger.info(`🗑️  Cleared ${used.length} used staged note${used.length > 1 ? 's' : ''}${remaining.length > 0 ? ` (${remaining.length} new note${remaining.length > 1 ? 's' : ''} kept)` : ''}`);
 }
 
 async function clearStagedNotes(): Promise<void> {
@@ -113,9 +559,9 @@ async function clearStagedNotes(): Promise<void> {
     if (fs.existsSync(notesFilePath)) {
       fs.unlinkSync(notesFilePath);
     }
-    console.log('🗑️  Cleared all staged notes');
+    logger.info('🗑️  Cleared all staged notes');
   } catch (error) {
-    throw new Error(`Failed to clear staged notes: ${error instanceof Error ? error.message : error}`);
+    throw new GitError(`Failed to clear staged notes: ${error instanceof Error ? error.message : error}`);
   }
 }
 
@@ -130,766 +576,5714 @@ async function listStagedNotes(): Promise<void> {
   console.log('📝 Staged notes:');
   notes.forEach((note, index) => {
     const timestamp = new Date(note.timestamp).toLocaleString();
-    console.log(`   ${index + 1}. ${note.message}`);
+    const category = note.category && note.category !== 'general' ? `[${note.category}] ` : '';
+    console.log(`   ${index + 1}. ${category}${note.message}`);
     console.log(`      (added: ${timestamp})`);
   });
 }
 
-async function getLastCommitInfo(): Promise<{ diff: string; message: string; hash: string }> {
-  try {
-    // Get the last commit hash
-    const { stdout: hash } = await execAsync('git rev-parse HEAD');
-    const commitHash = hash.trim();
+interface NotesHistoryEntry {
+  commit: string;
+  notes: StagedNote[];
+}
 
-    // Get the last commit message
-    const { stdout: message } = await execAsync('git log -1 --pretty=format:"%s"');
-    const commitMessage = message.trim().replace(/^"|"$/g, ''); // Remove quotes
+interface NotesHistory {
+  entries: NotesHistoryEntry[];
+  repository: string;
+}
 
-    // Get the diff for the last commit
-    const { stdout: diff } = await execAsync('git show --no-merges --format="" HEAD');
+// Enough for the commits of any open branch, small enough to stay a quick read
+const NOTES_HISTORY_LIMIT = 500;
 
-    return {
-      diff: diff.trim(),
-      message: commitMessage,
-      hash: commitHash.substring(0, 8) // Short hash
-    };
+async function getNotesHistoryFilePath(): Promise<string> {
+  return path.join(path.dirname(await getNotesFilePath()), 'commit-genius-notes-history.json');
+}
+
+async function loadNotesHistory(): Promise<NotesHistoryEntry[]> {
+  try {
+    const historyFilePath = await getNotesHistoryFilePath();
+    if (!fs.existsSync(historyFilePath)) {
+      return [];
+    }
+
+    const history: NotesHistory = JSON.parse(fs.readFileSync(historyFilePath, 'utf8'));
+    if (history.repository !== await getCurrentRepoPath()) {
+      return [];
+    }
+    return history.entries || [];
   } catch (error) {
-    throw new Error(`Failed to get last commit info: ${error instanceof Error ? error.message : error}`);
+    return [];
   }
 }
 
-async function amendCommitMessage(newMessage: string): Promise<void> {
+async function recordNotesHistory(notes: StagedNote[], commitCount: number = 1): Promise<void> {
+  // Notes are cleared after committing; keep them per commit so "genius pr" can still use them
   try {
-    await execAsync(`git commit --amend -m "${newMessage}"`);
+    const { stdout } = await execGit(['rev-list', `-n${commitCount}`, 'HEAD']);
+    const commits = stdout.trim().split('\n').filter(Boolean);
+    const entries = [...await loadNotesHistory(), ...commits.map(commit => ({ commit, notes }))];
+
+    const history: NotesHistory = {
+      entries: entries.slice(-NOTES_HISTORY_LIMIT),
+      repository: await getCurrentRepoPath()
+    };
+    fs.writeFileSync(await getNotesHistoryFilePath(), JSON.stringify(history, null, 2));
   } catch (error) {
-    throw new Error(`Failed to amend commit message: ${error instanceof Error ? error.message : error}`);
+    logger.warn(`⚠️  Warning: Failed to save notes history: ${error instanceof Error ? error.message : error}`);
   }
 }
 
-async function promptForContext(): Promise<void> {
-  console.log('\n🤔 Interactive mode: Let\'s add context to make your commit message more meaningful!');
-  console.log('💡 This helps explain WHY the change was made, not just WHAT changed.');
-  console.log('📝 Press Enter to skip any question, or type "done" to finish early.\n');
-
-  const prompts = [
-    {
-      key: 'problem',
-      question: '❓ What issue or problem does this change solve?',
-      example: 'e.g., "Fixes login timeout for enterprise users"'
-    },
-    {
-      key: 'environment',
-      question: '🎯 Which browser, environment, or system is affected?',
-      example: 'e.g., "Chrome on macOS", "Production environment", "Mobile Safari"'
-    },
-    {
-      key: 'references',
-      question: '🔗 Any issue numbers, tickets, or references?',
-      example: 'e.g., "Resolves #456", "Closes JIRA-1234", "See upstream bug #789"'
-    },
-    {
-      key: 'business',
-      question: '💼 Any business context or reasoning?',
-      example: 'e.g., "Critical for Q4 launch", "Customer requirement", "Security compliance"'
-    },
-    {
-      key: 'technical',
-      question: '🔧 Any technical details worth noting?',
-      example: 'e.g., "Temporary workaround until upstream fix", "Breaking change", "Performance improvement"'
-    }
-  ];
+interface GenerationCacheEntry {
+  key: string;
+  messages: string[];
+  createdAt: string;
+}
 
-  let contextAdded = 0;
+interface GenerationCache {
+  entries: GenerationCacheEntry[];
+  repository: string;
+}
 
-  for (const prompt of prompts) {
-    console.log(`${prompt.question}`);
-    console.log(`   ${prompt.example}`);
-    process.stdout.write('   > ');
+const GENERATION_CACHE_LIMIT = 50;
 
-    try {
-      // Use a more robust approach for reading input
-      const answer = await readUserInput();
+// Part of every cache key. Bump it when the prompt or the cleanup of model output changes,
+// so messages cached by an older version are not reused
+const PROMPT_VERSION = 1;
 
-      if (answer.toLowerCase() === 'done') {
-        console.log('✋ Finishing interactive mode early.\n');
-        break;
-      }
+async function getGenerationCacheFilePath(): Promise<string> {
+  return path.join(path.dirname(await getNotesFilePath()), 'commit-genius-cache.json');
+}
 
-      if (answer && answer.trim().length > 0) {
-        await addStagedNote(answer.trim());
-        contextAdded++;
-        console.log('   ✅ Added!\n');
-      } else {
-        console.log('   ⏭️  Skipped.\n');
-      }
-    } catch (error) {
-      console.log('   ❌ Error reading input, skipping.\n');
-    }
-  }
+function isCacheEnabled(cliCache?: boolean): boolean {
+  // Precedence: CLI flag (--no-cache) > env var > repository/global config > default (true)
+  return cliCache ?? resolveSetting('cache.enabled').value as boolean;
+}
 
-  if (contextAdded > 0) {
-    console.log(`🎉 Added ${contextAdded} context note${contextAdded > 1 ? 's' : ''}! This will help generate a more meaningful commit message.\n`);
-  } else {
-    console.log('ℹ️  No context added - proceeding with diff-only analysis.\n');
+function getGenerationCacheKey(parts: string[]): string {
+  const hash = createHash('sha256');
+  for (const part of [String(PROMPT_VERSION), ...parts]) {
+    // Length-prefixed so different splits of the same text never collide
+    hash.update(`${part.length}:${part}`);
   }
+  return hash.digest('hex');
 }
 
-async function readUserInput(): Promise<string> {
-  return new Promise((resolve, reject) => {
-    const timeout = setTimeout(() => {
-      reject(new Error('Input timeout'));
-    }, 30000); // 30 second timeout
-
-    process.stdin.resume();
-    process.stdin.setEncoding('utf8');
-
-    const onData = (data: string) => {
-      clearTimeout(timeout);
-      process.stdin.pause();
-      process.stdin.removeListener('data', onData);
-      resolve(data.toString().trim());
-    };
+async function loadGenerationCache(): Promise<GenerationCacheEntry[]> {
+  try {
+    const cacheFilePath = await getGenerationCacheFilePath();
+    if (!fs.existsSync(cacheFilePath)) {
+      return [];
+    }
 
-    process.stdin.once('data', onData);
-  });
-}
+    const cache: GenerationCache = JSON.parse(fs.readFileSync(cacheFilePath, 'utf8'));
+    if (cache.repository !== await getCurrentRepoPath()) {
+      return [];
+    }
 
-function loadGlobalConfig(): Config {
-  // Return cached config if already loaded
-  if (configLoaded) {
-    return cachedConfig || {};
+    // Expired entries are dropped on every read
+    const maxAge = (resolveSetting('cache.maxAgeHours').value as number) * 60 * 60 * 1000;
+    return (cache.entries || []).filter(entry => Date.now() - new Date(entry.createdAt).getTime() < maxAge);
+  } catch (error) {
+    return [];
   }
+}
 
-  const configPaths = [
-    path.join(os.homedir(), '.commit-genius.json'),
-    path.join(os.homedir(), '.config', 'commit-genius', 'config.json'),
-    path.join(os.homedir(), '.config', 'commit-genius.json')
-  ];
-
-  for (const configPath of configPaths) {
-    try {
-      if (fs.existsSync(configPath)) {
-        const configContent = fs.readFileSync(configPath, 'utf8');
-        const config = JSON.parse(configContent);
-        console.log(`📄 Using config from: ${configPath}`);
-
-        // Cache the loaded config
-        cachedConfig = config;
-        configLoaded = true;
-        return config;
+async function saveGenerationCache(entries: GenerationCacheEntry[]): Promise<void> {
+  try {
+    const cacheFilePath = await getGenerationCacheFilePath();
+    if (entries.length === 0) {
+      if (fs.existsSync(cacheFilePath)) {
+        fs.unlinkSync(cacheFilePath);
       }
-    } catch (error) {
-      console.warn(`⚠️  Warning: Failed to parse config file ${configPath}:`, error instanceof Error ? error.message : error);
+      return;
     }
-  }
 
-  // Cache empty config if no file found
-  cachedConfig = {};
-  configLoaded = true;
-  return {};
+    const cache: GenerationCache = {
+      entries: entries.slice(-GENERATION_CACHE_LIMIT),
+      repository: await getCurrentRepoPath()
+    };
+    fs.writeFileSync(cacheFilePath, JSON.stringify(cache, null, 2));
+  } catch (error) {
+    // The cache only saves a model call; never fail a commit over it
+    logger.warn(`⚠️  Warning: Failed to save the generation cache: ${error instanceof Error ? error.message : error}`);
+  }
 }
 
-function getApiKey(): string | undefined {
-  // Precedence: env vars > global config
-  return process.env.COMMIT_GENIUS_API_KEY ||
-         process.env.GEMINI_API_KEY ||
-         loadGlobalConfig().apiKey;
+async function getCachedMessages(key: string): Promise<GenerationCacheEntry | null> {
+  return (await loadGenerationCache()).find(entry => entry.key === key) || null;
 }
 
-function getDefaultModel(): string {
-  // Precedence: env vars > global config > hardcoded default
-  return process.env.COMMIT_GENIUS_MODEL ||
-         process.env.GEMINI_MODEL ||
-         loadGlobalConfig().model ||
-         'gemini-2.5-flash-lite';
+async function storeCachedMessages(key: string, messages: string[]): Promise<void> {
+  const entries = (await loadGenerationCache()).filter(entry => entry.key !== key);
+  entries.push({ key, messages, createdAt: new Date().toISOString() });
+  await saveGenerationCache(entries);
 }
 
-async function getCurrentBranch(): Promise<string | null> {
-  try {
-    const { stdout } = await execAsync('git branch --show-current');
-    return stdout.trim() || null;
-  } catch (error) {
-    return null;
+async function removeCachedMessages(key: string): Promise<void> {
+  const entries = await loadGenerationCache();
+  const remaining = entries.filter(entry => entry.key !== key);
+  if (remaining.length !== entries.length) {
+    await saveGenerationCache(remaining);
   }
 }
 
-function extractPrefixFromBranch(branchName: string): string | null {
-  // Common patterns for extracting prefix from branch names
-  const patterns = [
-    /^(?:feature|bugfix|hotfix|chore)\/([A-Z]+-\d+)/i,  // feature/JR-1234-description
-    /^([A-Z]+-\d+)/i,                                   // JR-1234 or JR-1234-description
-    /^(?:feature|bugfix|hotfix|chore)\/([A-Z]+\d+)/i,  // feature/PROJ567-description
-    /^([A-Z]+\d+)/i                                     // PROJ567
-  ];
-
-  for (const pattern of patterns) {
-    const match = branchName.match(pattern);
-    if (match) {
-      return match[1].toUpperCase();
-    }
+async function clearGenerationCache(): Promise<void> {
+  const cacheFilePath = await getGenerationCacheFilePath();
+  if (!fs.existsSync(cacheFilePath)) {
+    console.log('🗑️  The generation cache is already empty');
+    return;
   }
 
-  return null;
+  const count = (await loadGenerationCache()).length;
+  fs.unlinkSync(cacheFilePath);
+  console.log(`🗑️  Cleared the generation cache (${count} entr${count === 1 ? 'y' : 'ies'})`);
 }
 
-function validatePrefix(prefix: string): { valid: boolean; message?: string } {
-  // Basic validation for common prefix formats
-  const validPatterns = [
-    /^[A-Z]+-\d+$/,     // JR-1234, PROJ-567
-    /^[A-Z]+\d+$/,      // PROJ567, JR1234
-    /^#\d+$/,           // #123 (GitHub issues)
-    /^[A-Z]{2,}-\d+$/   // JIRA-1234
-  ];
+function formatAge(since: string): string {
+  const minutes = Math.floor((Date.now() - new Date(since).getTime()) / 60000);
+  if (minutes < 1) {
+    return 'just now';
+  }
+  if (minutes < 60) {
+    return `${minutes} minute${minutes === 1 ? '' : 's'} ago`;
+  }
+  const hours = Math.floor(minutes / 60);
+  return `${hours} hour${hours === 1 ? '' : 's'} ago`;
+}
 
-  const isValid = validPatterns.some(pattern => pattern.test(prefix));
+async function getLastCommitInfo(): Promise<{ diff: string; message: string; hash: string }> {
+  try {
+    // Get the last commit hash
+    const { stdout: hash } = await execGit(['rev-parse', 'HEAD']);
+    const commitHash = hash.trim();
+
+    // Get the last commit message
+    const { stdout: message } = await execGit(['log', '-1', '--pretty=format:%s']);
+    const commitMessage = message.trim();
+
+    // Get the diff for the last commit
+    const { stdout: diff } = await execGit(['show', '--no-merges', '--format=', 'HEAD']);
 
-  if (!isValid) {
     return {
-      valid: false,
-      message: `Prefix "${prefix}" doesn't match common patterns (e.g., JR-1234, PROJ567, #123)`
+      diff: diff.trim(),
+      message: commitMessage,
+      hash: commitHash.substring(0, 8) // Short hash
     };
+  } catch (error) {
+    throw new GitError(`Failed to get last commit info: ${error instanceof Error ? error.message : error}`);
   }
+}
 
-  return { valid: true };
+async function getCommitFileSummary(rev: string = 'HEAD'): Promise<string> {
+  try {
+    const { stdout } = await execGit(['diff-tree', '--root', '--no-commit-id', '--name-status', '-r', rev]);
+    return stdout.trim();
+  } catch (error) {
+    throw new GitError(`Failed to get files of commit ${rev}: ${error instanceof Error ? error.message : error}`);
+  }
 }
 
-async function getPrefix(cliPrefix?: string): Promise<string | null> {
-  // Precedence: CLI flag > branch detection > none
+async function getHeadHash(): Promise<string> {
+  try {
+    const { stdout } = await execGit(['rev-parse', 'HEAD']);
+    return stdout.trim();
+  } catch (error) {
+    throw new GitError(`Failed to read HEAD: ${error instanceof Error ? error.message : error}`);
+  }
+}
 
-  // 1. CLI flag (highest priority)
-  if (cliPrefix) {
-    const validation = validatePrefix(cliPrefix);
-    if (!validation.valid) {
-      console.warn(`⚠️  ${validation.message}`);
-    }
-    return cliPrefix;
+async function hasStagedChanges(): Promise<boolean> {
+  try {
+    const { stdout } = await execGit(['diff', '--cached', '--name-only']);
+    return stdout.trim().length > 0;
+  } catch (error) {
+    throw new GitError(`Failed to get file changes: ${error instanceof Error ? error.message : error}`);
   }
+}
 
-  // 2. Branch detection (if enabled in config or by default)
-  const config = loadGlobalConfig();
-  const autoPrefixFromBranch = config.autoPrefixFromBranch !== false; // Default to true
-  if (autoPrefixFromBranch) {
-    const currentBranch = await getCurrentBranch();
-    if (currentBranch) {
-      const branchPrefix = extractPrefixFromBranch(currentBranch);
-      if (branchPrefix) {
-        console.log(`🌿 Auto-detected prefix from branch "${currentBranch}": ${branchPrefix}`);
-        return branchPrefix;
-      }
-    }
+async function amendCommitMessage(newMessage: string): Promise<void> {
+  try {
+    await commitWithMessage(newMessage, ['--amend']);
+  } catch (error) {
+    throw new GitError(`Failed to amend commit message: ${error instanceof Error ? error.message : error}`);
   }
+}
 
-  // 3. No prefix
-  return null;
+// Reword History
+interface RewordCommit {
+  hash: string;
+  message: string;
+  newMessage?: string;
 }
 
-function formatCommitMessage(message: string, prefix: string | null, format: 'brackets' | 'colon' = 'brackets'): string {
-  if (!prefix) {
-    return message;
-  }
+interface CommitMetadata {
+  tree: string;
+  parents: string[];
+  message: string;
+  // Has a GPG, SSH or X.509 signature, which a rewritten commit loses unless it's signed again
+  signed: boolean;
+  env: NodeJS.ProcessEnv;
+}
 
-  switch (format) {
-    case 'brackets':
-      return `[${prefix}] ${message}`;
-    case 'colon':
-      return `${prefix}: ${message}`;
-    default:
-      return `[${prefix}] ${message}`;
+async function resolveRewordCommits(range: string): Promise<string[]> {
+  try {
+    if (range.includes('..')) {
+      const { stdout } = await execGit(['rev-list', '--reverse', '--topo-order', range]);
+      return stdout.trim().split('\n').filter(Boolean);
+    }
+    const { stdout } = await execGit(['rev-parse', '--verify', '-q', `${range}^{commit}`]);
+    return [stdout.trim()];
+  } catch (error) {
+    throw new GitError(`Failed to resolve "${range}": ${error instanceof Error ? error.message : error}`);
   }
 }
 
-function getBannerSetting(cliBanner?: boolean): boolean {
-  // Precedence: CLI flag > env var > config file > default (true)
+async function isAncestor(ancestor: string, descendant: string): Promise<boolean> {
+  try {
+    await execGit(['merge-base', '--is-ancestor', ancestor, descendant]);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
 
-  // 1. CLI flag (highest priority)
-  if (cliBanner !== undefined) {
-    return cliBanner;
+async function getUpstreamBranch(): Promise<string | null> {
+  try {
+    const { stdout } = await execGit(['rev-parse', '--abbrev-ref', '--symbolic-full-name', '@{upstream}']);
+    return stdout.trim() || null;
+  } catch (error) {
+    return null;
   }
+}
 
-  // 2. Environment variable
-  const envBanner = process.env.COMMIT_GENIUS_BANNER;
-  if (envBanner !== undefined) {
-    return envBanner.toLowerCase() === 'true';
+async function findPublishedCommits(hashes: string[]): Promise<{ hashes: string[]; where: string }> {
+  const upstream = await getUpstreamBranch();
+  if (upstream) {
+    const published: string[] = [];
+    for (const hash of hashes) {
+      if (await isAncestor(hash, upstream)) {
+        published.push(hash);
+      }
+    }
+    return { hashes: published, where: upstream };
   }
 
-  // 3. Config file
-  const config = loadGlobalConfig();
-  if (config.banner !== undefined) {
-    return config.banner;
+  // No upstream configured: any remote-tracking branch counts as published
+  const published: string[] = [];
+  for (const hash of hashes) {
+    const { stdout } = await execGit(['for-each-ref', '--contains', hash, '--format=%(refname:short)', 'refs/remotes']);
+    if (stdout.trim()) {
+      published.push(hash);
+    }
   }
+  return { hashes: published, where: 'a remote branch' };
+}
 
-  // 4. Default to true (enabled)
-  return true;
+async function readCommitMetadata(hash: string): Promise<CommitMetadata> {
+  const { stdout } = await execGit(['show', '-s', '--date=raw', '--format=%T%x00%P%x00%an%x00%ae%x00%ad%x00%cn%x00%ce%x00%cd', hash]);
+  const [tree, parents, authorName, authorEmail, authorDate, committerName, committerEmail, committerDate] = stdout.trim().split('\0');
+
+  // The raw commit object keeps the message byte for byte
+  const { stdout: raw } = await execGit(['cat-file', 'commit', hash]);
+  const headerEnd = raw.indexOf('\n\n');
+  const message = raw.slice(headerEnd + 2);
+
+  return {
+    tree,
+    parents: parents ? parents.split(' ') : [],
+    message,
+    signed: /^gpgsig(-sha256)? /m.test(raw.slice(0, headerEnd)),
+    env: {
+      GIT_AUTHOR_NAME: authorName,
+      GIT_AUTHOR_EMAIL: authorEmail,
+      GIT_AUTHOR_DATE: authorDate,
+      GIT_COMMITTER_NAME: committerName,
+      GIT_COMMITTER_EMAIL: committerEmail,
+      GIT_COMMITTER_DATE: committerDate
+    }
+  };
 }
 
-function getBannerText(): string {
-  // Precedence: env var > config file > default
+async function isCommitSigningEnabled(): Promise<boolean> {
+  try {
+    const { stdout } = await execGit(['config', '--bool', '--get', 'commit.gpgsign']);
+    return stdout.trim() === 'true';
+  } catch (error) {
+    // Exit code 1: not set
+    return false;
+  }
+}
+
+// git commit --amend signs again when commit.gpgsign is set; without it a signature is dropped
+async function warnAboutSignatures(hashes: string[]): Promise<void> {
+  const signed: string[] = [];
+  for (const hash of hashes) {
+    if ((await readCommitMetadata(hash)).signed) {
+      signed.push(hash);
+    }
+  }
+  if (signed.length === 0) {
+    return;
+  }
 
-  // 1. Environment variable
-  const envBannerText = process.env.COMMIT_GENIUS_BANNER_TEXT;
-  if (envBannerText) {
-    return envBannerText;
+  const count = signed.length === 1 ? `Commit ${signed[0].substring(0, 8)} is` : `${signed.length} commits are`;
+  if (await isCommitSigningEnabled()) {
+    logger.info(`🔏 ${count} signed and will be signed again (commit.gpgsign)`);
+  } else {
+    logger.warn(`⚠️  ${count} signed; rewriting ${signed.length === 1 ? 'it drops its signature' : 'them drops their signatures'}. Set commit.gpgsign to sign the new ${signed.length === 1 ? 'commit' : 'commits'}.`);
   }
+}
+
+async function rewriteCommitMessages(newMessages: Map<string, string>, oldest: string): Promise<string> {
+  // Recreates every commit from the oldest reworded one up to HEAD with the same
+  // tree, author, committer and dates; only the messages in newMessages change
+  const { stdout: headOutput } = await execGit(['rev-parse', 'HEAD']);
+  const head = headOutput.trim();
+  // commit-tree ignores commit.gpgsign, so signing has to be asked for
+  const sign = await isCommitSigningEnabled();
+
+  const metadata = await readCommitMetadata(oldest);
+  const rangeStart = metadata.parents.length > 0 ? [`${oldest}^..HEAD`] : ['HEAD'];
+  const { stdout: listOutput } = await execGit(['rev-list', '--reverse', '--topo-order', ...rangeStart]);
+  const commits = listOutput.trim().split('\n').filter(Boolean);
+
+  const rewritten = new Map<string, string>();
+
+  for (const hash of commits) {
+    const commit = await readCommitMetadata(hash);
+    const parents = commit.parents.map(parent => rewritten.get(parent) || parent);
+    const newMessage = newMessages.get(hash);
+
+    // Untouched commits on an unchanged parent can be kept as they are
+    if (newMessage === undefined && parents.every((parent, index) => parent === commit.parents[index])) {
+      continue;
+    }
 
-  // 2. Config file
-  const config = loadGlobalConfig();
-  if (config.bannerText) {
-    return config.bannerText;
+    const message = newMessage === undefined ? commit.message : (newMessage.endsWith('\n') ? newMessage : `${newMessage}\n`);
+    const { stdout } = await execGit(
+      ['commit-tree', ...(sign ? ['-S'] : []), commit.tree, ...parents.flatMap(parent => ['-p', parent])],
+      { input: message, env: commit.env }
+    );
+    rewritten.set(hash, stdout.trim());
   }
 
-  // 3. Default banner text
-  return '🤖 AI-powered commit by commit-genius https://github.com/bgizdov/commit-genius';
+  const newHead = rewritten.get(head) || head;
+  // ORIG_HEAD lets "git reset ORIG_HEAD" undo the rewrite; the old-value check guards against races
+  await execGit(['update-ref', 'ORIG_HEAD', head]);
+  await execGit(['update-ref', '-m', 'genius reword', 'HEAD', newHead, head]);
+  return newHead;
 }
 
-function addBannerToMessage(message: string, addBanner: boolean): string {
-  if (!addBanner || !message.trim()) {
-    return message;
+function printSideBySide(left: string, right: string, leftTitle: string, rightTitle: string): void {
+  const columnWidth = Math.max(20, Math.floor(((process.stdout.columns || 100) - 7) / 2));
+  const fit = (line: string) => line.length > columnWidth ? `${line.slice(0, columnWidth - 1)}…` : line.padEnd(columnWidth);
+  const leftLines = left.trimEnd().split('\n');
+  const rightLines = right.trimEnd().split('\n');
+
+  console.log(`   ${fit(leftTitle)} │ ${rightTitle}`);
+  console.log(`   ${'─'.repeat(columnWidth)}─┼─${'─'.repeat(columnWidth)}`);
+  for (let i = 0; i < Math.max(leftLines.length, rightLines.length); i++) {
+    console.log(`   ${fit(leftLines[i] ?? '')} │ ${(rightLines[i] ?? '').slice(0, columnWidth)}`);
   }
+}
 
-  const bannerText = getBannerText();
+// Both formats formatCommitMessage produces: "[JR-1234] ..." and "JR-1234: ..." (or "JR-1, JR-2: ...")
+const MESSAGE_TICKET = '(?:[A-Z][A-Z0-9]*-\\d+|[A-Z]+\\d+|#\\d+)';
+const MESSAGE_PREFIX_PATTERNS = [
+  /^\[([^\]\n]+)\]\s+/,
+  new RegExp(`^(${MESSAGE_TICKET}(?:, ${MESSAGE_TICKET})*):\\s+`)
+];
 
-  // Add banner with a blank line separator following git commit message conventions
-  return `${message}\n\n${bannerText}`;
+function extractMessagePrefix(message: string): string | null {
+  for (const pattern of MESSAGE_PREFIX_PATTERNS) {
+    const match = message.match(pattern);
+    if (match) {
+      return match[1];
+    }
+  }
+  return null;
 }
 
-function createGlobalConfig(apiKey: string, model?: string): void {
-  const configPath = path.join(os.homedir(), '.commit-genius.json');
-  const config: Config = {
-    apiKey,
-    ...(model && { model })
-  };
+function stripMessagePrefix(header: string): string {
+  const pattern = MESSAGE_PREFIX_PATTERNS.find(candidate => candidate.test(header));
+  return pattern ? header.replace(pattern, '') : header;
+}
+
+// Git Hook Integration
+const HOOK_NAME = 'prepare-commit-msg';
+// Clears the staged notes and cache entry of a generated message once its commit is made
+const POST_COMMIT_HOOK_NAME = 'post-commit';
+const HOOK_NAMES = [HOOK_NAME, POST_COMMIT_HOOK_NAME];
+const CHAINED_HOOK_SUFFIX = '.pre-genius';
 
+// Commit message sources for which the message is already decided:
+// -m/-F, merges, squashes and amends/-c/-C
+const HOOK_SKIPPED_SOURCES = ['message', 'merge', 'squash', 'commit'];
+
+async function getHooksDir(): Promise<string> {
   try {
-    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
-    console.log(`✅ Global config created at: ${configPath}`);
-    console.log('📄 Config contents:');
-    console.log(JSON.stringify(config, null, 2));
+    // Resolves core.hooksPath and worktrees the same way git itself does
+    const { stdout } = await execGit(['rev-parse', '--git-path', 'hooks']);
+    return path.resolve(stdout.trim());
   } catch (error) {
-    console.error('❌ Failed to create config file:', error instanceof Error ? error.message : error);
-    process.exit(1);
+    throw new GitError('Not in a git repository. Hooks require a git repository.');
   }
 }
 
-interface CommitMessageOptions {
-  dryRun?: boolean;
-  model?: string;
-  prefix?: string;
-  note?: string;
-  listNotes?: boolean;
-  clearNotes?: boolean;
-  debug?: boolean;
-  regenerate?: boolean;
-  interactive?: boolean;
-  banner?: boolean;
+function getGeniusCommand(): string {
+  // Prefer the exact CLI that installed the hook; fall back to "genius" on PATH
+  const scriptPath = path.resolve(process.argv[1] || '');
+  const quote = (value: string) => `'${value.replace(/'/g, `'\\''`)}'`;
+  return `if [ -f ${quote(scriptPath)} ]; then
+  set -- ${quote(process.execPath)} ${quote(scriptPath)}
+else
+  set -- genius
+fi`;
 }
 
-class AICommitGenerator {
-  private genAI: GoogleGenerativeAI;
-  private model: any;
+function getHookMarker(hookName: string): string {
+  return `# commit-genius ${hookName} hook`;
+}
 
-  constructor(apiKey: string, modelName?: string) {
-    this.genAI = new GoogleGenerativeAI(apiKey);
-    // Precedence: provided modelName > env vars > global config > default
-    const selectedModel = modelName || getDefaultModel();
-    this.model = this.genAI.getGenerativeModel({ model: selectedModel });
+function buildHookScript(hookName: string): string {
+  const header = `#!/bin/sh
+${getHookMarker(hookName)}
+# Installed by "genius hook install" - remove with "genius hook uninstall"
+
+HOOK_DIR=$(dirname "$0")
+if [ -x "$HOOK_DIR/${hookName}${CHAINED_HOOK_SUFFIX}" ]; then
+  "$HOOK_DIR/${hookName}${CHAINED_HOOK_SUFFIX}" "$@" || exit $?
+fi
+`;
+
+  if (hookName === POST_COMMIT_HOOK_NAME) {
+    return `${header}
+[ "$COMMIT_GENIUS_SKIP_HOOK" = "1" ] && exit 0
+
+${getGeniusCommand()}
+
+# The commit is already made; a failure here only leaves the notes in place
+"$@" hook post-commit < /dev/null >&2 || true
+`;
   }
 
-  async getFileChangeSummary(): Promise<string> {
-    try {
-      // Get file change summary (much smaller than full diff)
-      const { stdout } = await execAsync('git diff --cached --name-status');
-      return stdout.trim();
-    } catch (error) {
-      throw new Error(`Failed to get file changes: ${error instanceof Error ? error.message : error}`);
+  return `${header}
+case "$2" in
+  ${HOOK_SKIPPED_SOURCES.join('|')}) exit 0 ;;
+esac
+
+[ "$COMMIT_GENIUS_SKIP_HOOK" = "1" ] && exit 0
+
+MSG_FILE="$1"
+SOURCE="$2"
+${getGeniusCommand()}
+
+# Never block the commit: on any failure the editor simply opens without a suggestion
+"$@" hook run "$MSG_FILE" "$SOURCE" < /dev/null >&2 || true
+`;
+}
+
+function isGeniusHook(hookPath: string, hookName: string): boolean {
+  return fs.existsSync(hookPath) && fs.readFileSync(hookPath, 'utf8').includes(getHookMarker(hookName));
+}
+
+async function installHook(): Promise<void> {
+  const hooksDir = await getHooksDir();
+
+  if (fs.existsSync(hooksDir) && !fs.statSync(hooksDir).isDirectory()) {
+    throw new ConfigError(`Hooks path ${hooksDir} is not a directory (check core.hooksPath)`);
+  }
+
+  // Check every hook before changing any, so a conflict leaves nothing half installed
+  for (const hookName of HOOK_NAMES) {
+    const hookPath = path.join(hooksDir, hookName);
+    if (fs.existsSync(hookPath) && !isGeniusHook(hookPath, hookName) && fs.existsSync(hookPath + CHAINED_HOOK_SUFFIX)) {
+      throw new GitError(`Both ${hookPath} and ${hookPath + CHAINED_HOOK_SUFFIX} exist. Remove one of them and try again.`);
     }
   }
+  fs.mkdirSync(hooksDir, { recursive: true });
 
-  async checkStagedChanges(): Promise<string> {
-    try {
-      // First, get file change summary for large commits
-      const fileChanges = await this.getFileChangeSummary();
+  for (const hookName of HOOK_NAMES) {
+    const hookPath = path.join(hooksDir, hookName);
+    const chainedPath = hookPath + CHAINED_HOOK_SUFFIX;
 
-      if (!fileChanges) {
-        return '';
+    if (fs.existsSync(hookPath) && !isGeniusHook(hookPath, hookName)) {
+      fs.renameSync(hookPath, chainedPath);
+      console.log(`🔗 Existing hook moved to ${chainedPath} and will run first`);
+    }
+
+    fs.writeFileSync(hookPath, buildHookScript(hookName), { mode: 0o755 });
+    fs.chmodSync(hookPath, 0o755);
+    console.log(`✅ Installed ${hookName} hook at: ${hookPath}`);
+  }
+  console.log('💡 Plain "git commit" now opens your editor with a generated message.');
+}
+
+async function uninstallHook(): Promise<void> {
+  const hooksDir = await getHooksDir();
+
+  for (const hookName of HOOK_NAMES) {
+    const hookPath = path.join(hooksDir, hookName);
+    const chainedPath = hookPath + CHAINED_HOOK_SUFFIX;
+
+    if (!isGeniusHook(hookPath, hookName)) {
+      console.log(`ℹ️  No commit-genius ${hookName} hook installed in ${hooksDir}`);
+      continue;
+    }
+
+    fs.unlinkSync(hookPath);
+    if (fs.existsSync(chainedPath)) {
+      fs.renameSync(chainedPath, hookPath);
+      console.log(`🔗 Restored previous hook at ${hookPath}`);
+    }
+    console.log(`🗑️  Removed ${hookName} hook from ${hooksDir}`);
+  }
+}
+
+async function showHookStatus(): Promise<void> {
+  const hooksDir = await getHooksDir();
+
+  let hooksPathSetting = '';
+  try {
+    const { stdout } = await execGit(['config', '--get', 'core.hooksPath']);
+    hooksPathSetting = stdout.trim();
+  } catch (error) {
+    // core.hooksPath not set
+  }
+
+  console.log(`📂 Hooks directory: ${hooksDir}${hooksPathSetting ? ` (core.hooksPath = ${hooksPathSetting})` : ''}`);
+
+  for (const hookName of HOOK_NAMES) {
+    const hookPath = path.join(hooksDir, hookName);
+    const chainedPath = hookPath + CHAINED_HOOK_SUFFIX;
+
+    if (isGeniusHook(hookPath, hookName)) {
+      console.log(`✅ commit-genius ${hookName} hook is installed`);
+      if (fs.existsSync(chainedPath)) {
+        console.log(`🔗 Chained hook: ${chainedPath}`);
       }
+    } else if (fs.existsSync(hookPath)) {
+      console.log(`⚠️  A different ${hookName} hook is installed (run "genius hook install" to chain it)`);
+    } else {
+      console.log(`❌ commit-genius ${hookName} hook is not installed`);
+    }
+  }
+}
 
-      console.log('📁 Files changed:', fileChanges.split('\n').length);
+// What a generated message used: cleared once it is committed, so a failed or aborted
+// commit keeps its notes for the next try
+interface GeneratedState {
+  notes: StagedNote[];
+  cacheKey: string | null;
+}
 
-      // Try to get the full diff, but handle large diffs intelligently
-      try {
-        const { stdout } = await execAsync('git diff --cached', { maxBuffer: 1024 * 1024 * 10 });
-        const diff = stdout.trim();
+async function clearGeneratedState(state: GeneratedState): Promise<void> {
+  if (state.notes.length > 0) {
+    await recordNotesHistory(state.notes);
+    await removeUsedStagedNotes(state.notes);
+  }
+  // A committed message shouldn't come back for the next commit with the same diff
+  if (state.cacheKey) {
+    await removeCachedMessages(state.cacheKey);
+  }
+}
 
-        // If diff is very large, use file summary + limited diff
-        const maxDiffLength = 30000; // ~30KB limit for AI processing
-        if (diff.length > maxDiffLength) {
-          console.log(`⚠️  Large diff detected (${Math.round(diff.length / 1024)}KB). Using file summary + limited diff for AI analysis...`);
+// A message "hook run" wrote that git has not committed yet
+interface PendingHookCommit extends GeneratedState {
+  // The staged tree the message was generated for
+  tree: string;
+}
 
-          // Get a more concise diff with just file names and stats
-          const { stdout: statDiff } = await execAsync('git diff --cached --stat');
-          const { stdout: shortDiff } = await execAsync('git diff --cached --name-only');
+async function getPendingHookCommitPath(): Promise<string> {
+  return path.join(path.dirname(await getNotesFilePath()), 'commit-genius-hook.json');
+}
 
-          return `Files changed:
-${fileChanges}
+async function savePendingHookCommit(pending: PendingHookCommit): Promise<void> {
+  try {
+    fs.writeFileSync(await getPendingHookCommitPath(), JSON.stringify(pending, null, 2));
+  } catch (error) {
+    logger.warn(`⚠️  Warning: Failed to save the used notes for the post-commit hook: ${error instanceof Error ? error.message : error}`);
+  }
+}
 
-File statistics:
-${statDiff}
+async function finishHookCommit(): Promise<void> {
+  const pendingPath = await getPendingHookCommitPath();
+  if (!fs.existsSync(pendingPath)) {
+    return;
+  }
 
-Files modified:
-${shortDiff}
+  let pending: PendingHookCommit;
+  try {
+    pending = JSON.parse(fs.readFileSync(pendingPath, 'utf8'));
+  } finally {
+    fs.unlinkSync(pendingPath);
+  }
 
-Note: This is a large commit with ${Math.round(diff.length / 1024)}KB of changes.
-The commit message is generated based on file changes rather than detailed diff content.`;
-        }
+  // An aborted commit leaves the record behind; only a commit of the same changes used its notes
+  const { stdout } = await execGit(['rev-parse', 'HEAD^{tree}']);
+  if (stdout.trim() !== pending.tree) {
+    return;
+  }
 
-        return diff;
-      } catch (bufferError) {
-        // If diff is too large even with increased buffer, fall back to file summary
-        console.log('⚠️  Diff too large for processing. Using file change summary for AI analysis...');
+  await clearGeneratedState(pending);
+}
+
+function hasUserMessage(messageFileContent: string): boolean {
+  // Anything besides git's "#" comment lines means the message is already written
+  return messageFileContent.split('\n').some(line => line.trim().length > 0 && !line.startsWith('#'));
+}
+
+async function promptForContext(): Promise<void> {
+  logger.info('\n🤔 Interactive mode: Let\'s add context to make your commit message more meaningful!');
+  logger.info('💡 This helps explain WHY the change was made, not just WHAT changed.');
+  logger.info('📝 Press Enter to skip any question, or type "done" to finish early.\n');
+
+  const prompts: { key: NoteCategory; question: string; example: string }[] = [
+    {
+      key: 'problem',
+      question: '❓ What issue or problem does this change solve?',
+      example: 'e.g., "Fixes login timeout for enterprise users"'
+    },
+    {
+      key: 'environment',
+      question: '🎯 Which browser, environment, or system is affected?',
+      example: 'e.g., "Chrome on macOS", "Production environment", "Mobile Safari"'
+    },
+    {
+      key: 'references',
+      question: '🔗 Any issue numbers, tickets, or references?',
+      example: 'e.g., "Resolves #456", "Closes JIRA-1234", "See upstream bug #789"'
+    },
+    {
+      key: 'business',
+      question: '💼 Any business context or reasoning?',
+      example: 'e.g., "Critical for Q4 launch", "Customer requirement", "Security compliance"'
+    },
+    {
+      key: 'technical',
+      question: '🔧 Any technical details worth noting?',
+      example: 'e.g., "Temporary workaround until upstream fix", "Breaking change", "Performance improvement"'
+    }
+  ];
 
-        const { stdout: statDiff } = await execAsync('git diff --cached --stat');
+  let contextAdded = 0;
 
-        return `Files changed:
-${fileChanges}
+  for (const prompt of prompts) {
+    logger.info(`${prompt.question}`);
+    logger.info(`   ${prompt.example}`);
+    writePrompt('   > ');
+
+    try {
+      // Use a more robust approach for reading input
+      const answer = await readUserInput();
+
+      if (answer === null || answer.toLowerCase() === 'done') {
+        logger.info('✋ Finishing interactive mode early.\n');
+        break;
+      }
+
+      if (answer && answer.trim().length > 0) {
+        await addStagedNote(answer.trim(), prompt.key);
+        contextAdded++;
+        logger.info('   ✅ Added!\n');
+      } else {
+        logger.info('   ⏭️  Skipped.\n');
+      }
+    } catch (error) {
+      logger.info('   ❌ Error reading input, skipping.\n');
+    }
+  }
+
+  if (contextAdded > 0) {
+    logger.info(`🎉 Added ${contextAdded} context note${contextAdded > 1 ? 's' : ''}! This will help generate a more meaningful commit message.\n`);
+  } else {
+    logger.info('ℹ️  No context added - proceeding with diff-only analysis.\n');
+  }
+}
+
+// Resolves with the next line typed, or null when stdin ends (Ctrl-D or a closed
+// pipe) so callers can treat it as an abort instead of waiting forever
+async function readUserInput(timeoutMs: number = 30000): Promise<string | null> {
+  if (process.stdin.readableEnded || process.stdin.destroyed) {
+    return null;
+  }
+
+  return new Promise((resolve, reject) => {
+    let timeout: NodeJS.Timeout | undefined;
+
+    const cleanup = () => {
+      clearTimeout(timeout);
+      process.stdin.pause();
+      process.stdin.removeListener('data', onData);
+      process.stdin.removeListener('end', onEnd);
+      process.stdin.removeListener('close', onEnd);
+    };
+
+    const onData = (data: string) => {
+      cleanup();
+      resolve(data.toString().trim());
+    };
+
+    const onEnd = () => {
+      cleanup();
+      resolve(null);
+    };
+
+    // 30 second timeout by default; 0 waits indefinitely
+    if (timeoutMs > 0) {
+      timeout = setTimeout(() => {
+        cleanup();
+        reject(new Error('Input timeout'));
+      }, timeoutMs);
+    }
+
+    process.stdin.setEncoding('utf8');
+    process.stdin.on('data', onData);
+    process.stdin.on('end', onEnd);
+    process.stdin.on('close', onEnd);
+    process.stdin.resume();
+  });
+}
+
+const DEFAULT_BANNER_TEXT = '🤖 AI-powered commit by commit-genius https://github.com/bgizdov/commit-genius';
+const DEFAULT_BANNER_TRAILER = 'Generated-by: commit-genius';
+
+type ConfigScope = 'global' | 'repo';
+
+type ConfigFieldSchema =
+  | { type: 'string' | 'boolean'; env?: string[]; default?: string | boolean; secret?: boolean }
+  | { type: 'number'; env?: string[]; default?: number }
+  | { type: 'string[]'; env?: string[]; default?: string[] }
+  | { type: 'object[]'; properties: ConfigSchema; required?: string[]; default?: object[] }
+  | { type: 'enum'; values: readonly string[]; env?: string[]; default?: string }
+  | { type: 'object'; properties: ConfigSchema };
+
+interface ConfigSchema {
+  [key: string]: ConfigFieldSchema;
+}
+
+// Every config key, its type, the env vars that override it and its default.
+// Env vars are listed in precedence order.
+const CONFIG_SCHEMA: ConfigSchema = {
+  provider: { type: 'enum', values: SUPPORTED_PROVIDERS, env: ['COMMIT_GENIUS_PROVIDER'], default: 'gemini' },
+  apiKey: { type: 'string', env: ['COMMIT_GENIUS_API_KEY', 'GEMINI_API_KEY'], secret: true },
+  model: { type: 'string', env: ['COMMIT_GENIUS_MODEL', 'GEMINI_MODEL'], default: 'gemini-2.5-flash-lite' },
+  openai: {
+    type: 'object',
+    properties: {
+      apiKey: { type: 'string', env: ['COMMIT_GENIUS_OPENAI_API_KEY', 'OPENAI_API_KEY'], secret: true },
+      model: { type: 'string', env: ['COMMIT_GENIUS_OPENAI_MODEL'], default: 'gpt-4o-mini' },
+      baseUrl: { type: 'string', env: ['COMMIT_GENIUS_OPENAI_BASE_URL', 'OPENAI_BASE_URL'], default: 'https://api.openai.com/v1' }
+    }
+  },
+  ollama: {
+    type: 'object',
+    properties: {
+      model: { type: 'string', env: ['COMMIT_GENIUS_OLLAMA_MODEL'], default: 'llama3.2' },
+      baseUrl: { type: 'string', env: ['COMMIT_GENIUS_OLLAMA_HOST', 'OLLAMA_HOST'], default: 'http://localhost:11434' }
+    }
+  },
+  replay: {
+    type: 'object',
+    properties: {
+      dir: { type: 'string', env: ['COMMIT_GENIUS_FIXTURES'], default: '.commit-genius/fixtures' }
+    }
+  },
+  stub: {
+    type: 'object',
+    properties: {
+      message: { type: 'string', env: ['COMMIT_GENIUS_STUB_MESSAGE'] }
+    }
+  },
+  request: {
+    type: 'object',
+    properties: {
+      timeoutSeconds: { type: 'number', env: ['COMMIT_GENIUS_TIMEOUT'], default: 60 },
+      maxRetries: { type: 'number', env: ['COMMIT_GENIUS_MAX_RETRIES'], default: 2 },
+      backoffSeconds: { type: 'number', default: 1 },
+      maxRetryDelaySeconds: { type: 'number', default: 30 }
+    }
+  },
+  fallbackModels: { type: 'string[]', env: ['COMMIT_GENIUS_FALLBACK_MODELS'], default: [] },
+  prefixFormat: { type: 'enum', values: ['brackets', 'colon'], default: 'brackets' },
+  messageStyle: { type: 'enum', values: ['subject', 'full'], env: ['COMMIT_GENIUS_MESSAGE_STYLE'], default: 'subject' },
+  autoPrefixFromBranch: { type: 'boolean', default: true },
+  tickets: {
+    type: 'object',
+    properties: {
+      branchPatterns: {
+        type: 'object[]',
+        properties: { name: { type: 'string' }, pattern: { type: 'string' }, flags: { type: 'string' }, normalize: { type: 'string' } },
+        required: ['name', 'pattern'],
+        default: []
+      },
+      prefixPatterns: {
+        type: 'object[]',
+        properties: { name: { type: 'string' }, pattern: { type: 'string' }, flags: { type: 'string' }, normalize: { type: 'string' } },
+        required: ['name', 'pattern'],
+        default: []
+      },
+      defaultPatterns: { type: 'boolean', default: true }
+    }
+  },
+  banner: { type: 'boolean', env: ['COMMIT_GENIUS_BANNER'], default: true },
+  bannerText: { type: 'string', env: ['COMMIT_GENIUS_BANNER_TEXT'], default: DEFAULT_BANNER_TEXT },
+  chunkTokenBudget: { type: 'number', env: ['COMMIT_GENIUS_CHUNK_TOKEN_BUDGET'], default: 6000 },
+  maxChunks: { type: 'number', env: ['COMMIT_GENIUS_MAX_CHUNKS'], default: 8 },
+  ignore: { type: 'string[]', default: [] },
+  ignoreDefaults: { type: 'boolean', default: true },
+  review: { type: 'boolean', env: ['COMMIT_GENIUS_REVIEW'], default: true },
+  candidates: { type: 'number', env: ['COMMIT_GENIUS_CANDIDATES'], default: 1 },
+  redaction: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean', env: ['COMMIT_GENIUS_REDACTION'], default: true },
+      blockOnSecrets: { type: 'boolean', env: ['COMMIT_GENIUS_BLOCK_ON_SECRETS'], default: false },
+      disabledRules: { type: 'string[]', default: [] },
+      allowlist: { type: 'string[]', default: [] },
+      rules: {
+        type: 'object[]',
+        properties: { name: { type: 'string' }, pattern: { type: 'string' } },
+        required: ['name', 'pattern'],
+        default: []
+      }
+    }
+  },
+  trailers: {
+    type: 'object',
+    properties: {
+      refs: { type: 'enum', values: ['none', 'refs', 'closes'], env: ['COMMIT_GENIUS_REFS_TRAILER'], default: 'none' },
+      signOff: { type: 'boolean', env: ['COMMIT_GENIUS_SIGNOFF'], default: false },
+      bannerAsTrailer: { type: 'boolean', default: false },
+      bannerTrailer: { type: 'string', default: DEFAULT_BANNER_TRAILER },
+      coAuthors: {
+        type: 'object[]',
+        properties: { alias: { type: 'string' }, name: { type: 'string' }, email: { type: 'string' } },
+        required: ['alias', 'name', 'email'],
+        default: []
+      }
+    }
+  },
+  cache: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean', env: ['COMMIT_GENIUS_CACHE'], default: true },
+      maxAgeHours: { type: 'number', default: 24 }
+    }
+  },
+  promptTemplate: { type: 'string', env: ['COMMIT_GENIUS_PROMPT_TEMPLATE'] },
+  pr: {
+    type: 'object',
+    properties: {
+      ticketUrl: { type: 'string', env: ['COMMIT_GENIUS_TICKET_URL'] }
+    }
+  },
+  learnStyle: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean', env: ['COMMIT_GENIUS_LEARN_STYLE'], default: false },
+      examples: { type: 'number', default: 8 },
+      history: { type: 'number', default: 200 }
+    }
+  },
+  lint: {
+    type: 'object',
+    properties: {
+      enabled: { type: 'boolean', env: ['COMMIT_GENIUS_LINT'], default: true },
+      maxRetries: { type: 'number', env: ['COMMIT_GENIUS_LINT_MAX_RETRIES'], default: 2 }
+    }
+  }
+};
+
+interface ConfigLayer {
+  scope: ConfigScope;
+  path: string;
+  config: Config;
+}
+
+interface ResolvedSetting {
+  key: string;
+  value: unknown;
+  source: string;
+  secret: boolean;
+}
+
+let cachedConfigLayers: ConfigLayer[] = [];
+let configProblems: string[] = [];
+// Set for library calls with useConfig: false; settings then only come from the defaults
+let configDisabled = false;
+let cachedConfigScope = '';
+
+function getConfigScope(): string {
+  // The caches belong to the repository of process.cwd(); library calls may be made from another one
+  return `${configDisabled ? 'defaults' : 'config'}\0${process.cwd()}`;
+}
+
+function resetConfigCaches(): void {
+  cachedConfig = null;
+  configLoaded = false;
+  cachedConfigLayers = [];
+  configProblems = [];
+  cachedLintRules = undefined;
+  cachedPromptTemplate = null;
+}
+
+function describeType(field: ConfigFieldSchema): string {
+  switch (field.type) {
+    case 'enum':
+      return field.values.map(value => `"${value}"`).join(' | ');
+    case 'object':
+      return 'object';
+    default:
+      return field.type;
+  }
+}
+
+// Returns a copy of raw containing only keys that match the schema; everything
+// else is reported in problems
+function validateConfig(raw: unknown, schema: ConfigSchema, scope: ConfigScope, keyPrefix: string, problems: string[]): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    problems.push(`${keyPrefix || 'config'}: expected an object`);
+    return result;
+  }
+
+  for (const [key, value] of Object.entries(raw as Record<string, unknown>)) {
+    const keyPath = keyPrefix ? `${keyPrefix}.${key}` : key;
+    const field = schema[key];
+
+    if (!field) {
+      problems.push(`${keyPath}: unknown key`);
+      continue;
+    }
+
+    if (field.type === 'object') {
+      result[key] = validateConfig(value, field.properties, scope, keyPath, problems);
+      continue;
+    }
+
+    if (field.type === 'object[]') {
+      if (!Array.isArray(value)) {
+        problems.push(`${keyPath}: expected an array of objects, got ${JSON.stringify(value)}`);
+        continue;
+      }
+      result[key] = value.flatMap((item, index) => {
+        const itemPath = `${keyPath}[${index}]`;
+        const missing = (field.required || []).filter(name =>
+          !item || typeof item !== 'object' || (item as Record<string, unknown>)[name] === undefined);
+        if (missing.length > 0) {
+          problems.push(`${itemPath}: missing ${missing.join(', ')}`);
+          return [];
+        }
+        return [validateConfig(item, field.properties, scope, itemPath, problems)];
+      });
+      continue;
+    }
+
+    let valid: boolean;
+    if (field.type === 'enum') {
+      valid = typeof value === 'string' && field.values.includes(value);
+    } else if (field.type === 'string[]') {
+      valid = Array.isArray(value) && value.every(item => typeof item === 'string');
+    } else {
+      valid = typeof value === field.type;
+    }
+
+    if (!valid) {
+      problems.push(`${keyPath}: expected ${describeType(field)}, got ${JSON.stringify(value)}`);
+      continue;
+    }
+
+    // Repository config is committed, so it must never carry credentials
+    if (scope === 'repo' && field.type === 'string' && field.secret) {
+      problems.push(`${keyPath}: secrets are not allowed in repository config (ignored)`);
+      continue;
+    }
+
+    result[key] = value;
+  }
+
+  return result;
+}
+
+function deepMerge<T extends object>(base: T, override: T): T {
+  const merged: Record<string, unknown> = { ...(base as Record<string, unknown>) };
+
+  for (const [key, value] of Object.entries(override)) {
+    const existing = merged[key];
+    if (value && typeof value === 'object' && !Array.isArray(value) &&
+        existing && typeof existing === 'object' && !Array.isArray(existing)) {
+      merged[key] = deepMerge(existing as object, value as object);
+    } else {
+      merged[key] = value;
+    }
+  }
+
+  return merged as T;
+}
+
+function findRepoRoot(startDir: string = process.cwd()): string | null {
+  let dir = path.resolve(startDir);
+
+  while (true) {
+    // .git is a directory in a normal checkout and a file in worktrees/submodules
+    if (fs.existsSync(path.join(dir, '.git'))) {
+      return dir;
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) {
+      return null;
+    }
+    dir = parent;
+  }
+}
+
+function readConfigFile(configPath: string, scope: ConfigScope, packageKey?: string): ConfigLayer | null {
+  try {
+    if (!fs.existsSync(configPath)) {
+      return null;
+    }
+
+    let raw = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+    if (packageKey) {
+      raw = raw[packageKey];
+      if (raw === undefined) {
+        return null;
+      }
+    }
+
+    const source = packageKey ? `${configPath} ("${packageKey}")` : configPath;
+    const problems: string[] = [];
+    const config = validateConfig(raw, CONFIG_SCHEMA, scope, '', problems) as Config;
+    for (const problem of problems) {
+      configProblems.push(`${source}: ${problem}`);
+      logger.warn(`⚠️  Warning: Invalid config in ${source}: ${problem}`);
+    }
+
+    logger.info(`📄 Using ${scope} config from: ${source}`);
+    return { scope, path: source, config };
+  } catch (error) {
+    logger.warn(`⚠️  Warning: Failed to parse config file ${configPath}: ${error instanceof Error ? error.message : error}`);
+    return null;
+  }
+}
+
+const ENV_TRUE_VALUES = ['true', '1', 'yes', 'on'];
+const ENV_FALSE_VALUES = ['false', '0', 'no', 'off'];
+
+// Env vars are strings, so they are converted to the field's type before the same
+// checks validateConfig applies to files; returns undefined when the value is invalid
+function parseEnvValue(field: ConfigFieldSchema, envValue: string, problems: string[]): unknown {
+  switch (field.type) {
+    case 'boolean': {
+      const normalized = envValue.trim().toLowerCase();
+      if (ENV_TRUE_VALUES.includes(normalized) || ENV_FALSE_VALUES.includes(normalized)) {
+        return ENV_TRUE_VALUES.includes(normalized);
+      }
+      break;
+    }
+    case 'number': {
+      const value = Number(envValue);
+      if (envValue.trim() !== '' && !Number.isNaN(value)) {
+        return value;
+      }
+      break;
+    }
+    case 'enum': {
+      // Env vars are often typed by hand, so "OpenAI" selects "openai"
+      const value = field.values.find(candidate => candidate === envValue.trim().toLowerCase());
+      if (value !== undefined) {
+        return value;
+      }
+      break;
+    }
+    case 'string[]':
+      return envValue.split(',').map(item => item.trim()).filter(item => item.length > 0);
+    default:
+      return envValue;
+  }
+
+  problems.push(`expected ${describeType(field)}${field.type === 'boolean' ? ` (${[...ENV_TRUE_VALUES, ...ENV_FALSE_VALUES].join(', ')})` : ''}, got ${JSON.stringify(envValue)}`);
+  return undefined;
+}
+
+function validateEnvSettings(): void {
+  for (const keyPath of listConfigKeys()) {
+    const field = getConfigField(keyPath);
+    for (const envVar of (field && 'env' in field && field.env) || []) {
+      const envValue = process.env[envVar];
+      if (!field || !envValue) {
+        continue;
+      }
+
+      const problems: string[] = [];
+      parseEnvValue(field, envValue, problems);
+      for (const problem of problems) {
+        configProblems.push(`env ${envVar}: ${keyPath}: ${problem}`);
+        logger.warn(`⚠️  Warning: Invalid value in env ${envVar}: ${keyPath}: ${problem} (ignored)`);
+      }
+    }
+  }
+}
+
+function loadConfigLayers(): ConfigLayer[] {
+  // Return cached layers if already loaded
+  if (configLoaded && cachedConfigScope === getConfigScope()) {
+    return cachedConfigLayers;
+  }
+
+  resetConfigCaches();
+  cachedConfigScope = getConfigScope();
+  if (configDisabled) {
+    configLoaded = true;
+    return cachedConfigLayers;
+  }
+
+  const layers: ConfigLayer[] = [];
+
+  // 1. Global config: the first file found in the home directory
+  const globalConfigPaths = [
+    path.join(os.homedir(), '.commit-genius.json'),
+    path.join(os.homedir(), '.config', 'commit-genius', 'config.json'),
+    path.join(os.homedir(), '.config', 'commit-genius.json')
+  ];
+
+  for (const configPath of globalConfigPaths) {
+    const layer = readConfigFile(configPath, 'global');
+    if (layer) {
+      layers.push(layer);
+      break;
+    }
+  }
+
+  // 2. Repository config: .commit-genius.json, or a "commit-genius" key in package.json
+  const repoRoot = findRepoRoot();
+  if (repoRoot) {
+    const repoConfigPath = path.join(repoRoot, '.commit-genius.json');
+    const isGlobalFile = layers.some(layer => path.resolve(layer.path) === path.resolve(repoConfigPath));
+
+    const repoLayer = (!isGlobalFile && readConfigFile(repoConfigPath, 'repo')) ||
+                      readConfigFile(path.join(repoRoot, 'package.json'), 'repo', 'commit-genius');
+    if (repoLayer) {
+      layers.push(repoLayer);
+    }
+  }
+
+  validateEnvSettings();
+
+  cachedConfigLayers = layers;
+  cachedConfig = layers.reduce<Config>((merged, layer) => deepMerge<Config>(merged, layer.config), {});
+  configLoaded = true;
+  return layers;
+}
+
+function loadConfig(): Config {
+  // Global config with the repository config deep-merged on top
+  loadConfigLayers();
+  return cachedConfig || {};
+}
+
+function getConfigField(keyPath: string): ConfigFieldSchema | undefined {
+  let schema: ConfigSchema = CONFIG_SCHEMA;
+  let field: ConfigFieldSchema | undefined;
+
+  for (const key of keyPath.split('.')) {
+    field = schema[key];
+    if (!field) {
+      return undefined;
+    }
+    if (field.type === 'object') {
+      schema = field.properties;
+    }
+  }
+
+  return field;
+}
+
+function getConfigValue(config: Config, keyPath: string): unknown {
+  return keyPath.split('.').reduce<unknown>((value, key) =>
+    value && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined, config);
+}
+
+function resolveSetting(keyPath: string): ResolvedSetting {
+  // Precedence: env vars > repository config > global config > default
+  const field = getConfigField(keyPath);
+  if (!field || field.type === 'object') {
+    throw new ConfigError(`Unknown config setting "${keyPath}"`);
+  }
+  const secret = field.type === 'string' && field.secret === true;
+
+  // Loading the layers also reports invalid env values, which are skipped below
+  const layers = loadConfigLayers();
+
+  for (const envVar of (!configDisabled && 'env' in field && field.env) || []) {
+    const envValue = process.env[envVar];
+    if (envValue) {
+      const value = parseEnvValue(field, envValue, []);
+      if (value !== undefined) {
+        return { key: keyPath, value, source: `env ${envVar}`, secret };
+      }
+    }
+  }
+
+  for (let i = layers.length - 1; i >= 0; i--) {
+    const value = getConfigValue(layers[i].config, keyPath);
+    if (value !== undefined) {
+      return { key: keyPath, value, source: `${layers[i].scope} config ${layers[i].path}`, secret };
+    }
+  }
+
+  return { key: keyPath, value: field.default, source: field.default !== undefined ? 'default' : 'not set', secret };
+}
+
+function listConfigKeys(schema: ConfigSchema = CONFIG_SCHEMA, keyPrefix: string = ''): string[] {
+  return Object.entries(schema).flatMap(([key, field]) => {
+    const keyPath = keyPrefix ? `${keyPrefix}.${key}` : key;
+    return field.type === 'object' ? listConfigKeys(field.properties, keyPath) : [keyPath];
+  });
+}
+
+function maskSecret(value: string): string {
+  return value.length <= 8 ? '****' : `${value.slice(0, 4)}****${value.slice(-4)}`;
+}
+
+function showEffectiveConfig(): void {
+  const layers = loadConfigLayers();
+
+  console.log('\n⚙️  Effective configuration (env > repository config > global config > default):\n');
+
+  const settings = listConfigKeys().map(resolveSetting);
+  const keyWidth = Math.max(...settings.map(setting => setting.key.length));
+
+  for (const setting of settings) {
+    let display: string;
+    if (setting.value === undefined) {
+      display = '-';
+    } else if (setting.secret) {
+      display = maskSecret(String(setting.value));
+    } else {
+      display = JSON.stringify(setting.value);
+    }
+    console.log(`   ${setting.key.padEnd(keyWidth)}  ${display}  (${setting.source})`);
+  }
+
+  console.log('\n📄 Config files:');
+  if (layers.length === 0) {
+    console.log('   (none)');
+  }
+  for (const layer of layers) {
+    console.log(`   ${layer.scope.padEnd(6)}  ${layer.path}`);
+  }
+
+  if (configProblems.length > 0) {
+    console.log('\n⚠️  Problems:');
+    for (const problem of configProblems) {
+      console.log(`   ${problem}`);
+    }
+  }
+}
+
+function getProviderName(cliProvider?: string): ProviderName {
+  // Precedence: CLI flag > env var > repository/global config > default (gemini)
+  const provider = (cliProvider || resolveSetting('provider').value as string).toLowerCase();
+
+  if (!SUPPORTED_PROVIDERS.includes(provider as ProviderName)) {
+    throw new ConfigError(`Unknown provider "${provider}". Supported providers: ${SUPPORTED_PROVIDERS.join(', ')}`);
+  }
+
+  return provider as ProviderName;
+}
+
+function getApiKey(): string | undefined {
+  // Gemini API key
+  // Precedence: env vars > global config (never read from repository config)
+  return resolveSetting('apiKey').value as string | undefined;
+}
+
+function getDefaultModel(): string {
+  // Gemini model
+  // Precedence: env vars > repository/global config > hardcoded default
+  return resolveSetting('model').value as string;
+}
+
+function getOpenAIApiKey(): string | undefined {
+  // Precedence: env vars > global config (never read from repository config)
+  return resolveSetting('openai.apiKey').value as string | undefined;
+}
+
+function getOpenAIModel(): string {
+  // Precedence: env vars > repository/global config > hardcoded default
+  return resolveSetting('openai.model').value as string;
+}
+
+function getOpenAIBaseUrl(): string {
+  // Any OpenAI-compatible chat-completions endpoint (vLLM, LM Studio, Azure, ...)
+  // Precedence: env vars > repository/global config > OpenAI
+  const baseUrl = resolveSetting('openai.baseUrl').value as string;
+  return baseUrl.replace(/\/+$/, '');
+}
+
+function getOllamaModel(): string {
+  // Precedence: env vars > repository/global config > hardcoded default
+  return resolveSetting('ollama.model').value as string;
+}
+
+function getOllamaBaseUrl(): string {
+  // Precedence: env vars > repository/global config > local default
+  let baseUrl = resolveSetting('ollama.baseUrl').value as string;
+
+  // OLLAMA_HOST is commonly set without a scheme (e.g. "127.0.0.1:11434")
+  if (!/^https?:\/\//i.test(baseUrl)) {
+    baseUrl = `http://${baseUrl}`;
+  }
+  return baseUrl.replace(/\/+$/, '');
+}
+
+function getChunkTokenBudget(): number {
+  // Precedence: env var > repository/global config > default
+  return resolveSetting('chunkTokenBudget').value as number;
+}
+
+function getMaxChunks(): number {
+  // Precedence: env var > repository/global config > default
+  return resolveSetting('maxChunks').value as number;
+}
+
+// Rough estimate used to turn the token budget into a character budget
+const CHARS_PER_TOKEN = 4;
+// Larger diffs are summarized instead of sent as they are (~30KB)
+const MAX_DIFF_LENGTH = 30000;
+const CHUNK_SUMMARY_HEADER = 'Change summaries of a large diff:';
+
+function splitDiffIntoChunks(diff: string, maxChunkLength: number): string[] {
+  // Split per file, then per hunk for files that don't fit, and pack the pieces into chunks
+  const pieces: string[] = [];
+
+  for (const fileDiff of diff.split(/(?=^diff --git )/m)) {
+    if (fileDiff.length <= maxChunkLength) {
+      pieces.push(fileDiff);
+      continue;
+    }
+
+    const [header, ...hunks] = fileDiff.split(/(?=^@@ )/m);
+    for (const hunk of hunks.length > 0 ? hunks : ['']) {
+      let piece = header + hunk;
+      if (piece.length > maxChunkLength) {
+        piece = `${piece.slice(0, maxChunkLength)}\n... (hunk truncated)`;
+      }
+      pieces.push(piece);
+    }
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.length > maxChunkLength) {
+      chunks.push(current);
+      current = '';
+    }
+    current += piece;
+  }
+  if (current) {
+    chunks.push(current);
+  }
+
+  return chunks;
+}
+
+// Files that are noise for the model: still listed by name, but their content is left out of the diff
+const DEFAULT_IGNORE_PATTERNS = [
+  'package-lock.json',
+  'npm-shrinkwrap.json',
+  'yarn.lock',
+  'pnpm-lock.yaml',
+  'bun.lock',
+  'bun.lockb',
+  'Cargo.lock',
+  'Gemfile.lock',
+  'composer.lock',
+  'poetry.lock',
+  'Pipfile.lock',
+  'go.sum',
+  '*.min.js',
+  '*.min.css',
+  '*.snap'
+];
+
+function getIgnorePatterns(): string[] {
+  // Built-in defaults (unless disabled) + "ignore" from repository/global config
+  const config = loadConfig();
+  const defaults = config.ignoreDefaults === false ? [] : DEFAULT_IGNORE_PATTERNS;
+  return [...defaults, ...(config.ignore || [])];
+}
+
+function toExcludePathspec(pattern: string): string {
+  // gitignore-like semantics: "dist/" matches a directory anywhere, a pattern
+  // without a slash matches the file name in any directory
+  let glob = pattern.replace(/^\.\//, '');
+  if (glob.endsWith('/')) {
+    glob = `${glob}**`;
+  }
+  if (glob.startsWith('/')) {
+    glob = glob.slice(1);
+  } else if (!glob.replace(/\/\*\*$/, '').includes('/')) {
+    glob = `**/${glob}`;
+  }
+  return `:(exclude,glob,top)${glob}`;
+}
+
+async function getGeneratedFiles(files: string[]): Promise<string[]> {
+  if (files.length === 0) {
+    return [];
+  }
+
+  try {
+    // Honors linguist-generated / linguist-vendored from the staged .gitattributes.
+    // Paths are relative to the repository root, so run from there.
+    const { stdout } = await execGit(
+      ['check-attr', '--cached', '--stdin', 'linguist-generated', 'linguist-vendored'],
+      { input: files.join('\n') + '\n', cwd: await getCurrentRepoPath() }
+    );
+
+    const generated = new Set<string>();
+    for (const line of stdout.split('\n')) {
+      const match = line.match(/^(.*): linguist-(?:generated|vendored): (.*)$/);
+      if (match && (match[2] === 'set' || match[2] === 'true')) {
+        generated.add(match[1]);
+      }
+    }
+    return [...generated];
+  } catch (error) {
+    return [];
+  }
+}
+
+async function getStagedFileNames(pathspecs: string[] = []): Promise<string[]> {
+  const { stdout } = await execGit(['diff', '--cached', '--name-only', '-z', '--', ...pathspecs]);
+  return stdout.split('\0').filter(file => file.length > 0);
+}
+
+async function getDiffExcludePathspecs(): Promise<string[]> {
+  const stagedFiles = await getStagedFileNames();
+  const generatedFiles = await getGeneratedFiles(stagedFiles);
+
+  return [
+    ...getIgnorePatterns().map(toExcludePathspec),
+    ...generatedFiles.map(file => `:(exclude,literal,top)${file}`)
+  ];
+}
+
+// Secret Redaction
+interface RedactionRule {
+  name: string;
+  // The whole match is the secret; use lookbehind for context that must stay visible
+  pattern: RegExp;
+  test?: (match: string) => boolean;
+  appliesTo?: (file: string | null) => boolean;
+}
+
+interface RedactionFinding {
+  rule: string;
+  file: string | null;
+}
+
+// Words that make a name look like a credential. Each is matched as a whole segment of the
+// name: api_key, apiKey, DB_PASSWORD and authToken match, tokenize and maxTokens don't
+const SECRET_NAME_WORDS = [['api', 'key'], ['secret'], ['token'], ['passw(?:or)?d'], ['pwd'], ['credentials?'], ['auth'], ['private', 'key'], ['access', 'key']];
+
+function secretWordPattern(words: string[]): string {
+  const capitalize = (word: string) => `${word[0].toUpperCase()}${word.slice(1)}`;
+  const rest = words.slice(1).map(word => `[_-]?[${word[0]}${word[0].toUpperCase()}]${word.slice(1)}`).join('');
+  return [
+    `(?<![A-Za-z0-9])${words[0]}${rest}(?![a-z])`,
+    `(?<![A-Z])${capitalize(words[0])}${rest}(?![a-z])`,
+    `(?<![A-Z])${words.map(word => word.toUpperCase()).join('[_-]?')}(?![A-Z])`
+  ].join('|');
+}
+
+const SECRET_NAME = `[A-Za-z0-9_.-]*(?:${SECRET_NAME_WORDS.map(secretWordPattern).join('|')})[A-Za-z0-9_.-]*`;
+
+function isSecretValue(value: string): boolean {
+  return !/^(?:true|false|null|undefined|process\.env\.|os\.environ|\$\{|<)/i.test(value);
+}
+
+const BUILTIN_REDACTION_RULES: RedactionRule[] = [
+  {
+    name: 'private-key',
+    pattern: /-----BEGIN [A-Z ]*PRIVATE KEY( BLOCK)?-----(?:[\s\S]*?-----END [A-Z ]*PRIVATE KEY( BLOCK)?-----|(?:\n[+\- ]?[A-Za-z0-9+/=]*)*)/g
+  },
+  { name: 'aws-access-key', pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/g },
+  { name: 'aws-secret-key', pattern: /(?<=aws_?secret_?(?:access_?)?key["']?\s*[:=]\s*["']?)[A-Za-z0-9/+=]{40}(?![A-Za-z0-9/+=])/gi },
+  { name: 'github-token', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/g },
+  { name: 'slack-token', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/g },
+  { name: 'slack-webhook', pattern: /https:\/\/hooks\.slack\.com\/services\/[A-Za-z0-9/_-]+/g },
+  { name: 'google-api-key', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/g },
+  { name: 'openai-api-key', pattern: /\bsk-(?:proj-)?[A-Za-z0-9_-]{20,}\b/g },
+  { name: 'stripe-key', pattern: /\b[rs]k_(?:live|test)_[A-Za-z0-9]{16,}\b/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]{8,}\.eyJ[A-Za-z0-9_-]{8,}\.[A-Za-z0-9_-]{8,}/g },
+  {
+    // A string literal assigned to a name that suggests a credential: apiKey = "...", "token": "..."
+    name: 'secret-assignment',
+    pattern: new RegExp(`(?<=${SECRET_NAME}["']?\\s*:?[:=]\\s*["'\`])[^\\s"'\`]{6,}(?=["'\`])`, 'g'),
+    test: isSecretValue
+  },
+  {
+    // .env, shell and YAML style lines: API_KEY=value, password: value. Code like
+    // "token = getToken()" or "authHeader = build(request)" is never a match
+    name: 'secret-assignment',
+    pattern: new RegExp(`(?<=^[+\\- ]\\s*(?:export\\s+)?${SECRET_NAME}(?:=|:\\s+))[^\\s"'\`,;()\\[\\]{}]{6,}(?=\\s*$)`, 'gm'),
+    test: isSecretValue
+  },
+  {
+    name: 'high-entropy',
+    pattern: /(?<![A-Za-z0-9+/_-])[A-Za-z0-9+/_-]{32,}={0,2}(?![A-Za-z0-9+/_-])/g,
+    test: match => /[a-z]/.test(match) && /[A-Z]/.test(match) && /\d/.test(match) && shannonEntropy(match) >= 4.5
+  },
+  {
+    // Every assignment in a .env file is treated as a secret
+    name: 'env-file',
+    pattern: /(?<=^[+\- ]\s*(?:export\s+)?[A-Za-z_][A-Za-z0-9_.]*\s*=\s*)\S.*$/gm,
+    appliesTo: file => file !== null && isEnvFile(file)
+  }
+];
+
+function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+  return entropy;
+}
+
+function getRedactionRules(): RedactionRule[] {
+  const redaction = loadConfig().redaction || {};
+  const disabled = new Set(redaction.disabledRules || []);
+
+  const customRules = (redaction.rules || []).map(rule => {
+    try {
+      return { name: rule.name, pattern: new RegExp(rule.pattern, 'g') };
+    } catch (error) {
+      throw new ConfigError(`Invalid redaction rule "${rule.name}": ${error instanceof Error ? error.message : error}`);
+    }
+  });
+
+  return [...BUILTIN_REDACTION_RULES, ...customRules].filter(rule => !disabled.has(rule.name));
+}
+
+function isEnvFile(file: string): boolean {
+  return /(^|\/)\.env(\.[\w.-]+)?$/.test(file) && !/\.(example|sample|template)$/.test(file);
+}
+
+function redactSecrets(diff: string, rules: RedactionRule[], allowlist: string[] = []): { text: string; findings: RedactionFinding[] } {
+  const findings: RedactionFinding[] = [];
+  const allowed = new Set(allowlist);
+
+  // Redact file by file so findings can name the file they were found in
+  const sections = diff.split(/(?=^diff --git )/m).map(section => {
+    const fileMatch = section.match(/^diff --git a\/.* b\/(.*)$/m);
+    const file = fileMatch ? fileMatch[1] : null;
+    const sectionRules = rules.filter(rule => !rule.appliesTo || rule.appliesTo(file));
+
+    return sectionRules.reduce((text, rule) => text.replace(rule.pattern, (match: string) => {
+      if (allowed.has(match) || match.startsWith('[REDACTED:') || (rule.test && !rule.test(match))) {
+        return match;
+      }
+      findings.push({ rule: rule.name, file });
+      return `[REDACTED:${rule.name}]`;
+    }), section);
+  });
+
+  return { text: sections.join(''), findings };
+}
+
+function getBlockOnSecrets(cliBlock?: boolean): boolean {
+  // Precedence: CLI flag > env var > repository/global config > default (false)
+  return cliBlock ?? resolveSetting('redaction.blockOnSecrets').value as boolean;
+}
+
+async function getCurrentBranch(): Promise<string | null> {
+  try {
+    const { stdout } = await execGit(['branch', '--show-current']);
+    return stdout.trim() || null;
+  } catch (error) {
+    return null;
+  }
+}
+
+// Tickets are found in branch names with branchPatterns and checked in --prefix
+// values with prefixPatterns. Configured patterns are tried before the built-in ones.
+const BUILTIN_BRANCH_PATTERNS: TicketPatternConfig[] = [
+  { name: 'type-jira', pattern: '^(?:feature|bugfix|hotfix|chore)/([A-Z]+-\\d+)', flags: 'i' },  // feature/JR-1234-description
+  { name: 'jira', pattern: '^([A-Z]+-\\d+)', flags: 'i' },                                        // JR-1234 or JR-1234-description
+  { name: 'type-compact', pattern: '^(?:feature|bugfix|hotfix|chore)/([A-Z]+\\d+)', flags: 'i' }, // feature/PROJ567-description
+  { name: 'compact', pattern: '^([A-Z]+\\d+)', flags: 'i' }                                       // PROJ567
+];
+
+const BUILTIN_PREFIX_PATTERNS: TicketPatternConfig[] = [
+  { name: 'jira', pattern: '^[A-Z]+-\\d+$' },  // JR-1234, PROJ-567
+  { name: 'compact', pattern: '^[A-Z]+\\d+$' }, // PROJ567, JR1234
+  { name: 'github', pattern: '^#\\d+$' }        // #123 (GitHub issues)
+];
+
+// Several tickets are joined into one prefix: "[JR-1, JR-2] ..." or "JR-1, JR-2: ..."
+const PREFIX_TICKET_SEPARATOR = ', ';
+
+interface TicketPattern {
+  name: string;
+  source: 'config' | 'built-in';
+  regex: RegExp;
+  normalize?: string;
+}
+
+interface TicketMatch {
+  text: string;
+  ticket: string;
+}
+
+function getTicketPatterns(kind: 'branch' | 'prefix'): TicketPattern[] {
+  const tickets = loadConfig().tickets || {};
+  const configured = (kind === 'branch' ? tickets.branchPatterns : tickets.prefixPatterns) || [];
+  const builtin = tickets.defaultPatterns === false ? [] :
+    (kind === 'branch' ? BUILTIN_BRANCH_PATTERNS : BUILTIN_PREFIX_PATTERNS);
+
+  const compile = (pattern: TicketPatternConfig, source: TicketPattern['source']): TicketPattern => {
+    try {
+      // Global, so a pattern can find several tickets in one branch name
+      const flags = (pattern.flags || '').replace('g', '') + 'g';
+      return { name: pattern.name, source, regex: new RegExp(pattern.pattern, flags), normalize: pattern.normalize };
+    } catch (error) {
+      throw new ConfigError(`Invalid ticket pattern "${pattern.name}": ${error instanceof Error ? error.message : error}`);
+    }
+  };
+
+  return [
+    ...configured.map(pattern => compile(pattern, 'config')),
+    ...builtin.map(pattern => compile(pattern, 'built-in'))
+  ];
+}
+
+function normalizeTicket(match: RegExpMatchArray, normalize: string | undefined, uppercase: boolean): string {
+  const captured = match.groups?.ticket ?? match[1] ?? match[0];
+  if (!normalize) {
+    return uppercase ? captured.toUpperCase() : captured;
+  }
+
+  // Same placeholders as String.prototype.replace: $1, $<name> and $&
+  return normalize
+    .replace(/\$<(\w+)>/g, (_, name: string) => match.groups?.[name] ?? '')
+    .replace(/\$(\d)/g, (_, index: string) => match[Number(index)] ?? '')
+    .replace(/\$&/g, match[0]);
+}
+
+function matchTicketPattern(pattern: TicketPattern, value: string, uppercase: boolean): TicketMatch[] {
+  const matches: TicketMatch[] = [];
+  let consumed = 0;
+
+  for (const match of value.matchAll(pattern.regex)) {
+    if (match[0] === '' || (match.index ?? 0) < consumed) {
+      continue;
+    }
+    matches.push({ text: match[0], ticket: normalizeTicket(match, pattern.normalize, uppercase) });
+
+    // Tickets with the same key directly after the match belong to it too: feature/JR-1-JR-2-login
+    const captured = match.groups?.ticket ?? match[1];
+    const key = captured?.match(/^([A-Za-z][A-Za-z0-9]*[-_]|[A-Za-z]+)\d+$/)?.[1];
+    if (pattern.normalize || !key) {
+      continue;
+    }
+    const follower = new RegExp(`^[-_+](${key.replace(/[-_]/g, '[-_]')}\\d+)(?![0-9])`, 'i');
+    consumed = (match.index ?? 0) + match[0].length;
+    let next = value.slice(consumed).match(follower);
+    while (next) {
+      matches.push({ text: next[0], ticket: uppercase ? next[1].toUpperCase() : next[1] });
+      consumed += next[0].length;
+      next = value.slice(consumed).match(follower);
+    }
+  }
+
+  return matches;
+}
+
+function extractTicketsFromBranch(branchName: string): { pattern: TicketPattern; tickets: string[] } | null {
+  // The first pattern that matches wins; all of its matches are tickets
+  for (const pattern of getTicketPatterns('branch')) {
+    const tickets = [...new Set(matchTicketPattern(pattern, branchName, true).map(match => match.ticket))];
+    if (tickets.length > 0) {
+      return { pattern, tickets };
+    }
+  }
+
+  return null;
+}
+
+function extractPrefixFromBranch(branchName: string): string | null {
+  const result = extractTicketsFromBranch(branchName);
+  return result ? result.tickets.join(PREFIX_TICKET_SEPARATOR) : null;
+}
+
+function splitPrefix(prefix: string): string[] {
+  // "JR-1,JR-2", "JR-1 JR-2" and "JR-1, JR-2" all name two tickets
+  return prefix.split(/[\s,]+/).filter(Boolean);
+}
+
+function matchPrefixTicket(ticket: string): { pattern: TicketPattern; ticket: string } | null {
+  for (const pattern of getTicketPatterns('prefix')) {
+    const [match] = matchTicketPattern(pattern, ticket, false);
+    if (match) {
+      return { pattern, ticket: match.ticket };
+    }
+  }
+
+  return null;
+}
+
+function validatePrefix(prefix: string): { valid: boolean; message?: string; prefix: string } {
+  const unknown: string[] = [];
+  const tickets = splitPrefix(prefix).map(ticket => {
+    const match = matchPrefixTicket(ticket);
+    if (!match) {
+      unknown.push(ticket);
+    }
+    // Unknown tickets are kept as typed
+    return match ? match.ticket : ticket;
+  });
+  const normalized = [...new Set(tickets)].join(PREFIX_TICKET_SEPARATOR);
+
+  if (unknown.length > 0) {
+    return {
+      valid: false,
+      message: `Prefix ${unknown.map(ticket => `"${ticket}"`).join(', ')} doesn't match the ticket patterns (e.g., JR-1234, PROJ567, #123; see "genius prefix --explain")`,
+      prefix: normalized
+    };
+  }
+
+  return { valid: true, prefix: normalized };
+}
+
+async function getPrefix(cliPrefix?: string): Promise<string | null> {
+  // Precedence: CLI flag > branch detection > none
+
+  // 1. CLI flag (highest priority)
+  if (cliPrefix) {
+    const validation = validatePrefix(cliPrefix);
+    if (!validation.valid) {
+      logger.warn(`⚠️  ${validation.message}`);
+    }
+    return validation.prefix;
+  }
+
+  // 2. Branch detection (if enabled in config or by default)
+  const config = loadConfig();
+  const autoPrefixFromBranch = config.autoPrefixFromBranch !== false; // Default to true
+  if (autoPrefixFromBranch) {
+    const currentBranch = await getCurrentBranch();
+    if (currentBranch) {
+      const branchPrefix = extractPrefixFromBranch(currentBranch);
+      if (branchPrefix) {
+        logger.info(`🌿 Auto-detected prefix from branch "${currentBranch}": ${branchPrefix}`);
+        return branchPrefix;
+      }
+    }
+  }
+
+  // 3. No prefix
+  return null;
+}
+
+async function explainPrefix(cliPrefix?: string): Promise<void> {
+  const config = loadConfig();
+  const format = config.prefixFormat || 'brackets';
+  // Patterns are compiled as global regexes; show them with the flags the user wrote
+  const describe = (pattern: TicketPattern) =>
+    `${pattern.name} (${pattern.source}) /${pattern.regex.source}/${pattern.regex.flags.replace('g', '')}`;
+  let prefix: string | null = null;
+
+  console.log('🏷️  Prefix resolution (--prefix > branch > none)\n');
+
+  if (cliPrefix) {
+    console.log(`--prefix "${cliPrefix}":`);
+    for (const ticket of splitPrefix(cliPrefix)) {
+      const match = matchPrefixTicket(ticket);
+      console.log(match ?
+        `   ✅ ${ticket} matched ${describe(match.pattern)} → ${match.ticket}` :
+        `   ⚠️  ${ticket} matched no prefix pattern, kept as typed`);
+    }
+    prefix = validatePrefix(cliPrefix).prefix;
+    console.log('   The branch is not checked when --prefix is given\n');
+  }
+
+  if (!prefix) {
+    const branch = await getCurrentBranch();
+    if (config.autoPrefixFromBranch === false) {
+      console.log('🌿 Branch detection is off (autoPrefixFromBranch: false)\n');
+    } else if (!branch) {
+      console.log('🌿 No current branch (detached HEAD)\n');
+    } else {
+      console.log(`🌿 Branch "${branch}":`);
+      const patterns = getTicketPatterns('branch');
+      // Same order as extractTicketsFromBranch: the first pattern that matches wins
+      const winner = patterns.findIndex(pattern => matchTicketPattern(pattern, branch, true).length > 0);
+      patterns.forEach((pattern, index) => {
+        if (index === winner) {
+          console.log(`   ✅ ${describe(pattern)}`);
+          matchTicketPattern(pattern, branch, true).forEach(match => console.log(`      matched "${match.text}" → ${match.ticket}`));
+        } else if (winner !== -1 && index > winner) {
+          console.log(`   ·  ${describe(pattern)} not tried`);
+        } else {
+          console.log(`   ❌ ${describe(pattern)} no match`);
+        }
+      });
+      if (patterns.length === 0) {
+        console.log('   No branch patterns (defaultPatterns is false and none are configured)');
+      }
+      const result = extractTicketsFromBranch(branch);
+      prefix = result ? result.tickets.join(PREFIX_TICKET_SEPARATOR) : null;
+      console.log('');
+    }
+  }
+
+  console.log(prefix ?
+    `Result: ${formatCommitMessage('<message>', prefix, format)}` :
+    'Result: no prefix');
+}
+
+function formatCommitMessage(message: string, prefix: string | null, format: 'brackets' | 'colon' = 'brackets'): string {
+  if (!prefix) {
+    return message;
+  }
+
+  switch (format) {
+    case 'brackets':
+      return `[${prefix}] ${message}`;
+    case 'colon':
+      return `${prefix}: ${message}`;
+    default:
+      return `[${prefix}] ${message}`;
+  }
+}
+
+function getMessageStyle(cliStyle?: string): MessageStyle {
+  // CLI flag > resolved setting, so "genius config --show-effective" reports what is used
+  const style = (cliStyle || resolveSetting('messageStyle').value as string).toLowerCase();
+
+  if (style !== 'subject' && style !== 'full') {
+    throw new ConfigError(`Unknown message style "${style}". Use "subject" or "full".`);
+  }
+
+  return style;
+}
+
+const SUBJECT_MAX_LENGTH = 50;
+const BODY_LINE_WIDTH = 72;
+
+function isFooterLine(line: string): boolean {
+  // Git trailer style ("Refs: #123", "Co-authored-by: ...") or "Closes #123"
+  return /^(BREAKING[ -]CHANGE|[A-Za-z][\w-]*): \S/.test(line) ||
+         /^[A-Za-z][\w-]* #\S+/.test(line);
+}
+
+function parseCommitMessage(text: string): CommitMessageParts {
+  const cleaned = text
+    .replace(/^```[\w-]*\n?/, '')
+    .replace(/\n?```\s*$/, '')
+    .replace(/\r\n/g, '\n')
+    .trim();
+
+  const paragraphs = cleaned
+    .split(/\n\s*\n/)
+    .map(paragraph => paragraph.split('\n').map(line => line.trimEnd()).join('\n').trim())
+    .filter(paragraph => paragraph.length > 0);
+
+  if (paragraphs.length === 0) {
+    return { subject: '', body: '', footers: [] };
+  }
+
+  // Subject is the first line; anything else in the first paragraph belongs to the body
+  const [subjectLine, ...restOfFirst] = paragraphs[0].split('\n');
+  const subject = subjectLine.trim()
+    .replace(/^["']|["']$/g, '')
+    .replace(/^git commit -m\s*/, '')
+    .replace(/\.$/, '');
+
+  const bodyParagraphs = restOfFirst.length > 0 ? [restOfFirst.join('\n')] : [];
+  bodyParagraphs.push(...paragraphs.slice(1));
+
+  // Footers live in the last paragraph, and only if every line in it is a footer
+  let footers: string[] = [];
+  if (bodyParagraphs.length > 0) {
+    const lastLines = bodyParagraphs[bodyParagraphs.length - 1].split('\n');
+    if (lastLines.every(isFooterLine)) {
+      footers = lastLines.map(line => line.trim());
+      bodyParagraphs.pop();
+    }
+  }
+
+  return {
+    subject,
+    body: bodyParagraphs.join('\n\n'),
+    footers
+  };
+}
+
+function wrapText(text: string, width: number = BODY_LINE_WIDTH): string {
+  return text.split('\n\n').map(paragraph => {
+    const wrappedLines: string[] = [];
+
+    for (const line of paragraph.split('\n')) {
+      // Keep list markers as a hanging indent so wrapped bullets stay aligned
+      const listMatch = line.match(/^(\s*(?:[-*•]|\d+[.)])\s+)/);
+      const indent = listMatch ? ' '.repeat(listMatch[1].length) : '';
+      const words = line.trim().split(/\s+/).filter(word => word.length > 0);
+      let current = listMatch ? listMatch[1] : '';
+      let currentHasWords = false;
+
+      for (const word of words.slice(listMatch ? 1 : 0)) {
+        // Long tokens such as URLs are never broken
+        if (currentHasWords && current.length + 1 + word.length > width) {
+          wrappedLines.push(current);
+          current = indent + word;
+        } else {
+          current += (currentHasWords ? ' ' : '') + word;
+        }
+        currentHasWords = true;
+      }
+
+      if (current.trim().length > 0) {
+        wrappedLines.push(current);
+      }
+    }
+
+    return wrappedLines.join('\n');
+  }).join('\n\n');
+}
+
+// Cuts a subject at the last word that fits, for models that ignore the limit twice
+function shortenSubject(subject: string, maxLength: number = SUBJECT_MAX_LENGTH): string {
+  if (subject.length <= maxLength) {
+    return subject;
+  }
+
+  const cut = subject.slice(0, maxLength + 1);
+  const lastSpace = cut.lastIndexOf(' ');
+  const shortened = lastSpace > 0 ? cut.slice(0, lastSpace) : subject.slice(0, maxLength);
+  return shortened.replace(/[\s,;:.(-]+$/, '');
+}
+
+function renderCommitMessage(parts: CommitMessageParts): string {
+  const sections = [parts.subject];
+
+  if (parts.body) {
+    sections.push(wrapText(parts.body, BODY_LINE_WIDTH));
+  }
+
+  if (parts.footers.length > 0) {
+    sections.push(parts.footers.join('\n'));
+  }
+
+  return sections.join('\n\n');
+}
+
+function indentMessage(message: string): string {
+  return message.split('\n').map(line => line ? `   ${line}` : '').join('\n');
+}
+
+// Commit Message Linting
+type LintLevel = 0 | 1 | 2;
+type LintRule = [LintLevel, ('always' | 'never')?, unknown?];
+type LintRules = Record<string, LintRule>;
+
+interface LintProblem {
+  rule: string;
+  level: 1 | 2;
+  message: string;
+}
+
+interface LintRuleSet {
+  rules: LintRules;
+  source: string;
+}
+
+// Mirrors @commitlint/config-conventional
+const DEFAULT_LINT_RULES: LintRules = {
+  'body-leading-blank': [1, 'always'],
+  'body-max-line-length': [2, 'always', 100],
+  'footer-leading-blank': [1, 'always'],
+  'footer-max-line-length': [2, 'always', 100],
+  'header-max-length': [2, 'always', 100],
+  'header-trim': [2, 'always'],
+  'subject-case': [2, 'never', ['sentence-case', 'start-case', 'pascal-case', 'upper-case']],
+  'subject-empty': [2, 'never'],
+  'subject-full-stop': [2, 'never', '.'],
+  'type-case': [2, 'always', 'lower-case'],
+  'type-empty': [2, 'never'],
+  'type-enum': [2, 'always', ['build', 'chore', 'ci', 'docs', 'feat', 'fix', 'perf', 'refactor', 'revert', 'style', 'test']]
+};
+
+const COMMITLINT_CONFIG_FILES = [
+  '.commitlintrc',
+  '.commitlintrc.json',
+  '.commitlintrc.js',
+  '.commitlintrc.cjs',
+  'commitlint.config.js',
+  'commitlint.config.cjs'
+];
+
+// Formats commitlint supports that can't be loaded without extra dependencies
+const UNSUPPORTED_COMMITLINT_CONFIG_FILES = [
+  '.commitlintrc.yaml',
+  '.commitlintrc.yml',
+  '.commitlintrc.mjs',
+  '.commitlintrc.ts',
+  '.commitlintrc.mts',
+  '.commitlintrc.cts',
+  'commitlint.config.mjs',
+  'commitlint.config.ts',
+  'commitlint.config.mts',
+  'commitlint.config.cts'
+];
+
+const CONVENTIONAL_HEADER_PATTERN = /^(\w*)(?:\((.*)\))?!?: (.*)$/;
+
+let cachedLintRules: LintRuleSet | null | undefined;
+
+function resolveCommitlintRules(config: unknown, repoRoot: string): LintRules {
+  if (!config || typeof config !== 'object') {
+    return {};
+  }
+
+  const { extends: extendsValue, rules } = config as { extends?: unknown; rules?: unknown };
+  let resolved: LintRules = {};
+
+  for (const name of ([] as unknown[]).concat(extendsValue || [])) {
+    if (typeof name !== 'string') {
+      continue;
+    }
+    // The built-in defaults are the conventional preset, so there's no need to load it
+    if (name === '@commitlint/config-conventional') {
+      resolved = { ...resolved, ...DEFAULT_LINT_RULES };
+      continue;
+    }
+    try {
+      const loaded = require(require.resolve(name, { paths: [repoRoot] }));
+      resolved = { ...resolved, ...resolveCommitlintRules(loaded.default ?? loaded, repoRoot) };
+    } catch (error) {
+      logger.warn(`⚠️  Warning: Cannot load commitlint preset "${name}", using the built-in conventional rules instead`);
+      resolved = { ...resolved, ...DEFAULT_LINT_RULES };
+    }
+  }
+
+  if (rules && typeof rules === 'object') {
+    for (const [name, rule] of Object.entries(rules as Record<string, unknown>)) {
+      // Rules given as functions or promises are not supported
+      if (Array.isArray(rule) && [0, 1, 2].includes(rule[0])) {
+        resolved[name] = rule as LintRule;
+      }
+    }
+  }
+
+  return resolved;
+}
+
+function loadLintRules(): LintRuleSet | null {
+  if (cachedLintRules !== undefined) {
+    return cachedLintRules;
+  }
+
+  cachedLintRules = null;
+  if (resolveSetting('lint.enabled').value === false) {
+    return cachedLintRules;
+  }
+
+  const repoRoot = findRepoRoot() || process.cwd();
+
+  for (const fileName of UNSUPPORTED_COMMITLINT_CONFIG_FILES) {
+    if (fs.existsSync(path.join(repoRoot, fileName))) {
+      logger.warn(`⚠️  Warning: ${fileName} is not supported, use a JSON or CommonJS commitlint config. Using the built-in conventional rules instead`);
+    }
+  }
+
+  let config: unknown;
+  let source: string | null = null;
+
+  for (const fileName of COMMITLINT_CONFIG_FILES) {
+    const configPath = path.join(repoRoot, fileName);
+    if (!fs.existsSync(configPath)) {
+      continue;
+    }
+    try {
+      if (fileName.endsWith('.js') || fileName.endsWith('.cjs')) {
+        const loaded = require(configPath);
+        config = loaded.default ?? loaded;
+      } else {
+        config = JSON.parse(fs.readFileSync(configPath, 'utf8'));
+      }
+      source = configPath;
+    } catch (error) {
+      logger.warn(`⚠️  Warning: Failed to load commitlint config ${configPath}: ${error instanceof Error ? error.message : error}`);
+    }
+    break;
+  }
+
+  if (!source) {
+    const packagePath = path.join(repoRoot, 'package.json');
+    try {
+      const packageJson = fs.existsSync(packagePath) ? JSON.parse(fs.readFileSync(packagePath, 'utf8')) : {};
+      if (packageJson.commitlint) {
+        config = packageJson.commitlint;
+        source = `${packagePath} ("commitlint")`;
+      }
+    } catch (error) {
+      // An invalid package.json is reported by the config loader
+    }
+  }
+
+  if (source) {
+    logger.info(`📏 Using commitlint rules from: ${source}`);
+    cachedLintRules = { rules: resolveCommitlintRules(config, repoRoot), source };
+  } else {
+    cachedLintRules = { rules: DEFAULT_LINT_RULES, source: 'built-in conventional rules' };
+  }
+
+  return cachedLintRules;
+}
+
+function matchesCase(text: string, textCase: string): boolean {
+  switch (textCase) {
+    case 'lower-case':
+    case 'lowercase':
+      return text === text.toLowerCase();
+    case 'upper-case':
+    case 'uppercase':
+      return text === text.toUpperCase();
+    case 'sentence-case':
+    case 'sentencecase':
+      return text[0] === text[0].toUpperCase();
+    case 'start-case':
+    case 'startcase':
+      return text.split(/\s+/).every(word => !word || word[0] === word[0].toUpperCase());
+    case 'pascal-case':
+    case 'pascalcase':
+      return /^[A-Z][A-Za-z0-9]*$/.test(text);
+    case 'camel-case':
+    case 'camelcase':
+      return /^[a-z][A-Za-z0-9]*$/.test(text);
+    case 'kebab-case':
+    case 'kebabcase':
+      return /^[a-z0-9]+(-[a-z0-9]+)*$/.test(text);
+    case 'snake-case':
+    case 'snakecase':
+      return /^[a-z0-9]+(_[a-z0-9]+)*$/.test(text);
+    default:
+      return true;
+  }
+}
+
+function lintCommitMessage(message: string, rules: LintRules): LintProblem[] {
+  const lines = message.replace(/\r\n/g, '\n').split('\n');
+  const header = lines[0];
+  const match = header.trim().match(CONVENTIONAL_HEADER_PATTERN);
+  const parts = parseCommitMessage(message);
+  const footer = parts.footers.join('\n');
+
+  const fields: Record<string, string> = {
+    header,
+    type: match ? match[1] : '',
+    scope: match && match[2] ? match[2] : '',
+    subject: match ? match[3] : '',
+    body: parts.body,
+    footer
+  };
+
+  const problems: LintProblem[] = [];
+
+  for (const [name, [level, when = 'always', value]] of Object.entries(rules)) {
+    const ruleMatch = name.match(/^(header|type|scope|subject|body|footer)-(enum|case|empty|max-length|min-length|full-stop|leading-blank|max-line-length|trim)$/);
+    if (level === 0 || !ruleMatch) {
+      continue;
+    }
+
+    const [, field, condition] = ruleMatch;
+    const text = fields[field];
+
+    // Only the *-empty rules say anything about missing fields
+    if (!text && condition !== 'empty') {
+      continue;
+    }
+
+    // A scope may list several scopes; quoted identifiers don't count towards the case of a subject
+    const items = field === 'scope' ?
+      text.split(/[,/\\]/).map(item => item.trim()) :
+      [text.replace(/`[^`]*`|"[^"]*"|'[^']*'/g, '').trim()];
+    const list = ([] as unknown[]).concat(value ?? []).map(String);
+    let holds: boolean;
+    let description: string;
+
+    switch (condition) {
+      case 'enum':
+        holds = list.length === 0 || items.every(item => list.includes(item));
+        description = `be one of [${list.join(', ')}]`;
+        break;
+      case 'case':
+        // Text that starts with a digit or symbol has no case to check
+        if (!items.every(item => /^[A-Za-z]/.test(item))) {
+          continue;
+        }
+        holds = list.some(textCase => items.every(item => matchesCase(item, textCase)));
+        description = `be ${list.join(', ')}`;
+        break;
+      case 'empty':
+        holds = text.trim() === '';
+        description = 'be empty';
+        break;
+      case 'max-length':
+        holds = text.length <= Number(value);
+        description = `be at most ${value} characters (currently ${text.length})`;
+        break;
+      case 'min-length':
+        holds = text.length >= Number(value);
+        description = `be at least ${value} characters (currently ${text.length})`;
+        break;
+      case 'full-stop':
+        holds = text.trimEnd().endsWith(String(value ?? '.'));
+        description = `end with "${value ?? '.'}"`;
+        break;
+      case 'trim':
+        holds = text === text.trim();
+        description = 'have no leading or trailing whitespace';
+        break;
+      case 'max-line-length':
+        holds = text.split('\n').every(line => line.length <= Number(value));
+        description = `have lines of at most ${value} characters`;
+        break;
+      case 'leading-blank': {
+        const firstLine = text.split('\n')[0];
+        const index = lines.findIndex((line, lineIndex) => lineIndex > 0 && line.trim() === firstLine.trim());
+        holds = index <= 0 || lines[index - 1].trim() === '';
+        description = 'begin with a blank line';
+        break;
+      }
+      default:
+        continue;
+    }
+
+    if (when === 'never' ? holds : !holds) {
+      problems.push({ rule: name, level, message: `${field} must ${when === 'never' ? 'not ' : ''}${description}` });
+    }
+  }
+
+  return problems;
+}
+
+const DEFAULT_COMMIT_TYPES = ['feat', 'fix', 'docs', 'style', 'refactor', 'test', 'chore', 'perf', 'ci', 'build'];
+
+function getCommitlintTypes(): string[] | null {
+  const typeEnum = loadLintRules()?.rules['type-enum'];
+  if (typeEnum && typeEnum[0] > 0 && typeEnum[1] !== 'never' && Array.isArray(typeEnum[2]) && typeEnum[2].length > 0) {
+    return typeEnum[2].map(String);
+  }
+  return null;
+}
+
+function getCommitTypes(): string[] {
+  // A commitlint type-enum narrows or extends the types the model may use
+  return getCommitlintTypes() || DEFAULT_COMMIT_TYPES;
+}
+
+function getLintMaxRetries(): number {
+  return Math.max(0, resolveSetting('lint.maxRetries').value as number);
+}
+
+// Prompt Templates
+type PromptVariables = Record<string, string | boolean>;
+
+interface PromptContext {
+  prefix?: string | null;
+  fileSummary?: string;
+  learnStyle?: boolean;
+  // Staged notes describe the staged change, so they don't apply when rewording old commits
+  useNotes?: boolean;
+  // Notes given to the library API, used instead of the staged notes
+  notes?: StagedNote[];
+  // Revision whose history is used for style examples (HEAD~1 when rewording HEAD)
+  historyBase?: string;
+}
+
+interface PromptTemplate {
+  template: string;
+  source: string;
+}
+
+// The built-in prompt; custom templates use the same variables and syntax
+const DEFAULT_PROMPT_TEMPLATE = `
+You are an expert developer who writes clear, concise commit messages following conventional commit format.
+
+{{#if isChunkSummary}}Analyze the following summaries of a large git diff, written part by part, and generate a single, well-formatted commit message{{else}}{{#if isFileSummary}}Analyze the following file changes and statistics to generate a single, well-formatted commit message{{else}}Analyze the following git diff and generate a single, well-formatted commit message{{/if}}{{/if}}{{#if full}} with a subject, body and optional footers{{/if}}.
+{{#if notes}}
+
+=== IMPORTANT: DEVELOPER CONTEXT NOTES ===
+{{notes}}
+
+INSTRUCTIONS: Use this context to write a meaningful commit message that explains WHY the change was made.
+Include specific details from the notes such as:
+- Browser/environment issues (e.g., "Chrome bug", "production crash")
+- Issue references (e.g., "Resolves #456", "upstream bug #123")
+- Business reasoning (e.g., "for enterprise customers", "critical for Q4 launch")
+- Technical context (e.g., "until upstream fix", "temporary workaround")
+=== END CONTEXT ===
+{{/if}}
+
+Rules:
+1. Use conventional commit format: type(scope): description
+2. Types: {{types}}{{#if scopes}}
+   Scopes used in this repository: {{scopes}} (prefer these over inventing new ones){{/if}}
+3. {{#if full}}Keep the subject line under {{subjectMaxLength}} characters; put the explanation in the body{{else}}{{#if notes}}When developer notes are provided, prioritize explaining WHY over brevity - include key context like browser issues, upstream bugs, or business reasoning{{else}}Keep the description under 50 characters for the first line{{/if}}{{/if}}
+4. Be specific about what changed based on {{#if isFileSummary}}file names and change types{{else}}{{#if isChunkSummary}}the summaries{{else}}the actual code changes{{/if}}{{/if}}
+5. Use present tense ("add" not "added")
+6. Don't include "git commit -m" or quotes
+7. Return ONLY the commit message, nothing else
+8. {{#if isFileSummary}}Focus on the overall purpose based on file patterns (e.g., "docs: add README files", "feat: add new components"){{else}}{{#if isChunkSummary}}Focus on the overall purpose that ties the parts together, not on any single part{{else}}Focus on the specific code changes{{/if}}{{/if}}
+{{#if notes}}
+9. IMPORTANT: Incorporate context from developer notes to explain the reasoning behind the change - include issue references, browser/environment details, and business context{{#if full}} (in the body){{/if}}
+{{/if}}
+{{#if full}}
+
+Message structure:
+- Line 1: the subject in conventional commit format, no trailing period
+- Line 2: blank
+- Body: one or more short paragraphs (or "-" bullet points) explaining WHAT changed and, above all, WHY; wrap at {{bodyLineWidth}} characters
+- Optional footers after a blank line, one per line, e.g. "BREAKING CHANGE: <description>" or "Refs: #123"
+- Omit the body only for trivial changes
+{{/if}}
+{{#if styleExamples}}
+
+Recent commits in this repository. Match their style (scope names, casing, wording, level of detail), not their content:
+{{styleExamples}}
+{{/if}}
+{{#if instructions}}
+
+Additional instructions from the developer (follow them):
+{{instructions}}
+{{/if}}
+
+{{#if isFileSummary}}File changes and statistics:{{else}}{{#if isChunkSummary}}Summaries of the changes:{{else}}Git diff:{{/if}}{{/if}}
+{{diff}}
+
+Commit message:`;
+
+let cachedPromptTemplate: PromptTemplate | null = null;
+
+function renderPromptTemplate(template: string, variables: PromptVariables): string {
+  // Block tags on a line of their own don't leave an empty line behind
+  const source = template.replace(/^[ \t]*({{\s*(?:#if|#unless|else|\/if|\/unless)\b[^}]*}})[ \t]*\r?\n/gm, '$1');
+  const tokens = source.split(/({{[^{}]*}})/);
+  let position = 0;
+
+  const isTruthy = (name: string): boolean => {
+    const value = variables[name];
+    return typeof value === 'boolean' ? value : Boolean(value && value.trim());
+  };
+
+  const renderUntil = (stopAt: string[]): { text: string; stop: string | null } => {
+    let text = '';
+
+    while (position < tokens.length) {
+      const token = tokens[position++];
+      const tag = token.match(/^{{\s*(#if|#unless|else|\/if|\/unless)?\s*(\w*)\s*}}$/);
+      if (!tag) {
+        text += token;
+        continue;
+      }
+
+      const [, keyword, name] = tag;
+
+      if (!keyword) {
+        if (!(name in variables)) {
+          throw new Error(`Unknown variable {{${name}}}. Available: ${Object.keys(variables).join(', ')}`);
+        }
+        text += String(variables[name] === false ? '' : variables[name]);
+        continue;
+      }
+
+      if (keyword === '#if' || keyword === '#unless') {
+        if (!(name in variables)) {
+          throw new Error(`Unknown variable "${name}" in {{${keyword}}}. Available: ${Object.keys(variables).join(', ')}`);
+        }
+        const closing = keyword === '#if' ? '/if' : '/unless';
+        const whenTrue = renderUntil(['else', closing]);
+        const whenFalse = whenTrue.stop === 'else' ? renderUntil([closing]) : { text: '', stop: whenTrue.stop };
+        if (whenFalse.stop !== closing) {
+          throw new Error(`Missing {{${closing}}} for {{${keyword} ${name}}}`);
+        }
+        text += isTruthy(name) === (keyword === '#if') ? whenTrue.text : whenFalse.text;
+        continue;
+      }
+
+      if (stopAt.includes(keyword)) {
+        return { text, stop: keyword };
+      }
+      throw new Error(`Unexpected {{${keyword}}}`);
+    }
+
+    return { text, stop: null };
+  };
+
+  return renderUntil([]).text;
+}
+
+function loadPromptTemplate(): PromptTemplate {
+  if (cachedPromptTemplate) {
+    return cachedPromptTemplate;
+  }
+
+  const repoRoot = findRepoRoot();
+  const candidates: string[] = [];
+
+  // Precedence: promptTemplate setting (env > repo > global) > repository file > global file > built-in
+  const configured = resolveSetting('promptTemplate').value as string | undefined;
+  if (configured) {
+    const expanded = configured.replace(/^~(?=$|\/)/, os.homedir());
+    candidates.push(path.resolve(repoRoot || process.cwd(), expanded));
+  }
+  if (repoRoot && !configDisabled) {
+    candidates.push(path.join(repoRoot, '.commit-genius.prompt.md'));
+  }
+  if (!configDisabled) {
+    candidates.push(
+      path.join(os.homedir(), '.config', 'commit-genius', 'prompt.md'),
+      path.join(os.homedir(), '.commit-genius.prompt.md')
+    );
+  }
+
+  for (const candidate of candidates) {
+    if (fs.existsSync(candidate)) {
+      try {
+        const template = fs.readFileSync(candidate, 'utf8');
+        if (!/{{\s*diff\s*}}/.test(template)) {
+          logger.warn(`⚠️  Warning: Prompt template ${candidate} has no {{diff}}, the model will not see the changes`);
+        }
+        logger.info(`📄 Using prompt template from: ${candidate}`);
+        cachedPromptTemplate = { template, source: candidate };
+        return cachedPromptTemplate;
+      } catch (error) {
+        throw new ConfigError(`Failed to read prompt template ${candidate}: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    if (candidate === candidates[0] && configured) {
+      logger.warn(`⚠️  Warning: Prompt template ${candidate} not found, using the default prompt`);
+    }
+  }
+
+  cachedPromptTemplate = { template: DEFAULT_PROMPT_TEMPLATE, source: 'built-in' };
+  return cachedPromptTemplate;
+}
+
+async function getRecentCommitSubjects(count: number = 10): Promise<string> {
+  try {
+    const { stdout } = await execGit(['log', `-n${count}`, '--no-merges', '--pretty=format:%s']);
+    return stdout.trim().split('\n').filter(Boolean).map(subject => `- ${subject}`).join('\n');
+  } catch (error) {
+    // No commits yet
+    return '';
+  }
+}
+
+// Commit Style From History
+interface CommitStyle {
+  examples: string[];
+  types: string[];
+  scopes: string[];
+}
+
+// Fewer conventional commits than this say nothing reliable about the vocabulary
+const MIN_STYLE_SAMPLES = 5;
+
+function getLearnStyle(cliLearnStyle?: boolean): boolean {
+  // Precedence: CLI flag > env var > repository/global config > default (false)
+  return cliLearnStyle ?? resolveSetting('learnStyle.enabled').value as boolean;
+}
+
+async function readCommitMessages(base: string, count: number, format: '%s' | '%B', pathspecs: string[] = []): Promise<string[]> {
+  try {
+    const { stdout } = await execGit([
+      'log', base, `-n${count}`, '--no-merges', `--pretty=format:${format}%x1e`,
+      ...(pathspecs.length > 0 ? ['--', ...pathspecs] : [])
+    ]);
+    return stdout.split('\x1e').map(message => message.trim()).filter(Boolean);
+  } catch (error) {
+    // No history yet (or base doesn't exist)
+    return [];
+  }
+}
+
+function cleanHistoryMessage(message: string): string {
+  // The prefix, banner and people trailers are added by the tool, so the model shouldn't copy them
+  const toolLines = [getBannerText().trim(), (resolveSetting('trailers.bannerTrailer').value as string).trim()];
+  return message
+    .split('\n')
+    .filter(line => !toolLines.includes(line.trim()) && !/^(Signed-off-by|Co-authored-by):/i.test(line.trim()))
+    .join('\n')
+    .replace(/^\[[^\]\n]+\]\s+/, '')
+    .replace(/^[A-Z][A-Z0-9]*-\d+:\s+/, '')
+    .trim();
+}
+
+function inferCommitVocabulary(subjects: string[]): { types: string[]; scopes: string[] } {
+  const typeCounts = new Map<string, number>();
+  const scopeCounts = new Map<string, number>();
+  let conventional = 0;
+
+  for (const subject of subjects) {
+    const match = cleanHistoryMessage(subject).match(CONVENTIONAL_HEADER_PATTERN);
+    if (!match || !match[1]) {
+      continue;
+    }
+    conventional++;
+    typeCounts.set(match[1], (typeCounts.get(match[1]) || 0) + 1);
+    for (const scope of (match[2] || '').split(/[,/]/).map(item => item.trim()).filter(Boolean)) {
+      scopeCounts.set(scope, (scopeCounts.get(scope) || 0) + 1);
+    }
+  }
+
+  if (conventional < MIN_STYLE_SAMPLES) {
+    return { types: [], scopes: [] };
+  }
+
+  // Anything used only once is more likely a typo than vocabulary
+  const frequent = (counts: Map<string, number>, limit: number) => [...counts]
+    .filter(([, count]) => count >= 2)
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([name]) => name);
+
+  return { types: frequent(typeCounts, 15), scopes: frequent(scopeCounts, 20) };
+}
+
+async function learnCommitStyle(base: string, files: string[], messageStyle: MessageStyle): Promise<CommitStyle> {
+  const exampleCount = Math.max(0, resolveSetting('learnStyle.examples').value as number);
+  const historySize = Math.max(0, resolveSetting('learnStyle.history').value as number);
+  const format = messageStyle === 'full' ? '%B' : '%s';
+
+  // Commits touching the same files first, then the same directories, then anything recent
+  const filePathspecs = files.slice(0, 50).map(file => `:(top,literal)${file}`);
+  const directories = [...new Set(files.map(file => path.posix.dirname(file)).filter(dir => dir !== '.'))];
+  const directoryPathspecs = directories.slice(0, 50).map(dir => `:(top,literal)${dir}`);
+
+  const examples: string[] = [];
+  const sources = [
+    filePathspecs.length > 0 ? await readCommitMessages(base, exampleCount, format, filePathspecs) : [],
+    directoryPathspecs.length > 0 ? await readCommitMessages(base, exampleCount, format, directoryPathspecs) : [],
+    await readCommitMessages(base, exampleCount * 2, format)
+  ];
+
+  for (const message of sources.flat().map(cleanHistoryMessage)) {
+    if (examples.length >= exampleCount) {
+      break;
+    }
+    if (message && !examples.includes(message)) {
+      examples.push(message.length > 600 ? `${message.slice(0, 600)}...` : message);
+    }
+  }
+
+  const vocabulary = inferCommitVocabulary(await readCommitMessages(base, historySize, '%s'));
+
+  // Inferred types still have to pass commitlint
+  const allowedTypes = getCommitlintTypes();
+  const types = allowedTypes ? vocabulary.types.filter(type => allowedTypes.includes(type)) : vocabulary.types;
+
+  return { examples, types, scopes: vocabulary.scopes };
+}
+
+function getBannerSetting(cliBanner?: boolean): boolean {
+  // Precedence: CLI flag > env var > repository/global config > default (true)
+  if (cliBanner !== undefined) {
+    return cliBanner;
+  }
+  return resolveSetting('banner').value as boolean;
+}
+
+function getBannerText(): string {
+  // An empty bannerText in a config file falls back to the default like an unset one
+  return (resolveSetting('bannerText').value as string) || DEFAULT_BANNER_TEXT;
+}
+
+// Trailers that reference tickets; a ticket in any of them isn't added again
+const REFERENCE_TRAILER_KEYS = ['refs', 'closes', 'fixes', 'resolves'];
+
+interface TrailerOptions {
+  refs?: RefsTrailerMode;
+  pair?: string[];
+  signOff?: boolean;
+  banner?: boolean;
+  bannerTrailer?: boolean;
+}
+
+function getRefsTrailerMode(cliRefs?: RefsTrailerMode): RefsTrailerMode {
+  // Precedence: CLI flag > env var > repository/global config > default (none)
+  return cliRefs ?? resolveSetting('trailers.refs').value as RefsTrailerMode;
+}
+
+function isBannerTrailer(cliBannerTrailer?: boolean): boolean {
+  return cliBannerTrailer ?? resolveSetting('trailers.bannerAsTrailer').value as boolean;
+}
+
+function resolveCoAuthor(alias: string): string {
+  // "Name <email>" is used as is; anything else must be an alias from trailers.coAuthors
+  if (/^[^<>]+<[^<>\s]+@[^<>\s]+>$/.test(alias.trim())) {
+    return alias.trim();
+  }
+
+  const coAuthors = loadConfig().trailers?.coAuthors || [];
+  const coAuthor = coAuthors.find(entry => entry.alias.toLowerCase() === alias.trim().toLowerCase());
+  if (!coAuthor) {
+    const known = coAuthors.map(entry => entry.alias);
+    throw new ConfigError(`Unknown --pair alias "${alias}". ${known.length > 0 ?
+      `Known aliases: ${known.join(', ')}` :
+      'Add it to "trailers.coAuthors" in your config, or pass "Name <email>"'}`);
+  }
+  return `${coAuthor.name} <${coAuthor.email}>`;
+}
+
+async function getSignOffIdentity(): Promise<string> {
+  // Same identity "git commit -s" uses, without the timestamp
+  try {
+    const { stdout } = await execGit(['var', 'GIT_COMMITTER_IDENT']);
+    return stdout.trim().replace(/\s+\d+\s+[-+]\d{4}$/, '');
+  } catch (error) {
+    throw new GitError(`Failed to read your git identity for Signed-off-by: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+function findReferenceTickets(notes: StagedNote[]): string[] {
+  // Ticket IDs mentioned in "references" notes, e.g. "Closes #42" or "See JR-1234"
+  const tickets: string[] = [];
+  for (const note of notes.filter(note => note.category === 'references')) {
+    for (const match of note.message.matchAll(/(?<![\w/#-])(#\d+|[A-Z][A-Z0-9]*-\d+)(?![\w-])/g)) {
+      tickets.push(match[1]);
+    }
+  }
+  return tickets;
+}
+
+async function resolveTrailers(options: TrailerOptions, prefix: string | null, notes: StagedNote[] = []): Promise<string[]> {
+  const trailers: string[] = [];
+
+  const refs = getRefsTrailerMode(options.refs);
+  if (refs !== 'none') {
+    const key = refs === 'closes' ? 'Closes' : 'Refs';
+    const tickets = [...(prefix ? splitPrefix(prefix) : []), ...findReferenceTickets(notes)];
+    trailers.push(...[...new Set(tickets)].map(ticket => `${key}: ${ticket}`));
+  }
+
+  for (const alias of (options.pair || []).flatMap(value => value.split(','))) {
+    if (alias.trim()) {
+      trailers.push(`Co-authored-by: ${resolveCoAuthor(alias)}`);
+    }
+  }
+
+  if (options.signOff ?? resolveSetting('trailers.signOff').value as boolean) {
+    trailers.push(`Signed-off-by: ${await getSignOffIdentity()}`);
+  }
+
+  // --no-banner turns off the banner trailer too
+  if (getBannerSetting(options.banner) && isBannerTrailer(options.bannerTrailer)) {
+    trailers.push(resolveSetting('trailers.bannerTrailer').value as string);
+  }
+
+  return trailers;
+}
+
+function splitTrailerBlock(message: string): { content: string; trailers: string[] } {
+  const paragraphs = message.trim().split(/\n\s*\n/);
+  const lastLines = paragraphs[paragraphs.length - 1].split('\n');
+
+  // The subject alone is never a trailer block
+  if (paragraphs.length > 1 && lastLines.every(isFooterLine)) {
+    return { content: paragraphs.slice(0, -1).join('\n\n'), trailers: lastLines };
+  }
+  return { content: message.trim(), trailers: [] };
+}
+
+function mergeTrailers(existing: string[], trailers: string[]): string[] {
+  const merged = [...existing];
+  const parse = (line: string) => {
+    const match = line.match(/^([A-Za-z][\w-]*)(?::\s*| (?=#))(.*)$/);
+    return match ? { key: match[1].toLowerCase(), value: match[2].trim().toLowerCase() } : null;
+  };
+
+  for (const trailer of trailers) {
+    const added = parse(trailer);
+    const duplicate = added && merged.some(line => {
+      const current = parse(line);
+      if (!current || current.value !== added.value) {
+        return false;
+      }
+      // "Closes: #42" already covers "Refs: #42"
+      return current.key === added.key ||
+        (REFERENCE_TRAILER_KEYS.includes(current.key) && REFERENCE_TRAILER_KEYS.includes(added.key));
+    });
+    if (!duplicate) {
+      merged.push(trailer);
+    }
+  }
+
+  return merged;
+}
+
+function addBannerToMessage(message: string, addBanner: boolean, trailers: string[] = []): string {
+  if (!message.trim()) {
+    return message;
+  }
+
+  const bannerText = addBanner ? getBannerText() : null;
+
+  if (trailers.length === 0) {
+    // Add banner with a blank line separator following git commit message conventions
+    return bannerText ? `${message}\n\n${bannerText}` : message;
+  }
+
+  // Trailers must be the last paragraph for "git interpret-trailers", so they are merged into
+  // the message's own footer block and the banner goes right before them
+  const { content, trailers: existing } = splitTrailerBlock(message);
+  return [content, ...(bannerText ? [bannerText] : []), mergeTrailers(existing, trailers).join('\n')].join('\n\n');
+}
+
+function createGlobalConfig(apiKey: string, model?: string): void {
+  const configPath = path.join(os.homedir(), '.commit-genius.json');
+  const config: Config = {
+    apiKey,
+    ...(model && { model })
+  };
+
+  try {
+    fs.writeFileSync(configPath, JSON.stringify(config, null, 2));
+  } catch (error) {
+    throw new ConfigError(`Failed to create config file ${configPath}: ${error instanceof Error ? error.message : error}`);
+  }
+  logger.info(`✅ Global config created at: ${configPath}`);
+  logger.info('📄 Config contents:');
+  logger.info(JSON.stringify(config, null, 2));
+}
+
+function getCandidateCount(cliCandidates?: string): number {
+  // Precedence: CLI flag > env var > repository/global config > default (1)
+  const count = cliCandidates !== undefined ? Number(cliCandidates) : resolveSetting('candidates').value as number;
+  if (!Number.isInteger(count) || count < 1 || count > 10) {
+    throw new ConfigError(`Number of candidates must be between 1 and 10, got "${cliCandidates ?? count}"`);
+  }
+  return count;
+}
+
+function isReviewEnabled(skipReview?: boolean): boolean {
+  // --yes skips the review; so does a non-interactive stdin (scripts, hooks, CI)
+  if (skipReview || !process.stdin.isTTY) {
+    return false;
+  }
+  return resolveSetting('review').value !== false;
+}
+
+function printCandidates(candidates: string[], title: string): void {
+  if (candidates.length === 1) {
+    logger.info(`\n📝 ${title}:`);
+    logger.info(indentMessage(candidates[0]));
+    return;
+  }
+
+  logger.info(`\n📝 ${title} (${candidates.length} candidates):`);
+  candidates.forEach((candidate, index) => {
+    const [firstLine, ...rest] = indentMessage(candidate).split('\n');
+    logger.info(`\n ${index + 1}.${firstLine.slice(2)}`);
+    if (rest.length > 0) {
+      logger.info(rest.join('\n'));
+    }
+  });
+}
+
+async function editMessageInEditor(message: string): Promise<string> {
+  // Same editor git would use: GIT_EDITOR > core.editor > VISUAL > EDITOR > vi
+  const { stdout: editorOutput } = await execGit(['var', 'GIT_EDITOR']);
+  const editor = editorOutput.trim() || process.env.VISUAL || process.env.EDITOR || 'vi';
+  const { stdout: gitDir } = await execGit(['rev-parse', '--git-dir']);
+  const editFile = path.resolve(gitDir.trim(), 'COMMIT_GENIUS_EDITMSG');
+
+  fs.writeFileSync(editFile, `${message}
+
+# Edit the commit message above. Lines starting with "#" are ignored.
+# Save an empty message to keep the previous one.
+`);
+
+  await new Promise<void>((resolve, reject) => {
+    // Editor settings may include arguments (e.g. "code --wait"), so run through the shell like git does
+    const child = spawn('sh', ['-c', `${editor} "$@"`, editor, editFile], { stdio: 'inherit' });
+    child.on('error', reject);
+    child.on('close', code => code === 0 ? resolve() : reject(new Error(`Editor "${editor}" exited with code ${code}`)));
+  });
+
+  const edited = fs.readFileSync(editFile, 'utf8')
+    .split('\n')
+    .filter(line => !line.startsWith('#'))
+    .join('\n')
+    .trim();
+  fs.unlinkSync(editFile);
+
+  return edited;
+}
+
+// Pull Request Descriptions
+interface PullRequestDraft {
+  title: string;
+  summary: string;
+  changes: string[];
+  testing: string[];
+}
+
+function parseJsonResponse(text: string, what: string): unknown {
+  const jsonStart = text.indexOf('{');
+  const jsonEnd = text.lastIndexOf('}');
+  if (jsonStart === -1 || jsonEnd === -1) {
+    throw new Error(`The model did not return a JSON ${what}`);
+  }
+
+  try {
+    return JSON.parse(text.slice(jsonStart, jsonEnd + 1));
+  } catch (error) {
+    throw new Error(`The model returned an invalid JSON ${what}: ${error instanceof Error ? error.message : error}`);
+  }
+}
+
+async function refExists(ref: string): Promise<boolean> {
+  try {
+    await execGit(['rev-parse', '--verify', '-q', `${ref}^{commit}`]);
+    return true;
+  } catch (error) {
+    return false;
+  }
+}
+
+async function detectBaseBranch(): Promise<string | null> {
+  const currentBranch = await getCurrentBranch();
+
+  // 1. An upstream that isn't the branch's own remote copy (e.g. a branch created from origin/main)
+  const upstream = await getUpstreamBranch();
+  if (upstream && upstream.split('/').slice(1).join('/') !== currentBranch) {
+    return upstream;
+  }
+
+  let remote = 'origin';
+  try {
+    const { stdout } = await execGit(['config', `branch.${currentBranch}.remote`]);
+    remote = stdout.trim() || remote;
+  } catch (error) {
+    // Not tracking a remote
+  }
+
+  // 2. The remote's default branch
+  try {
+    const { stdout } = await execGit(['symbolic-ref', '--short', `refs/remotes/${remote}/HEAD`]);
+    if (stdout.trim()) {
+      return stdout.trim();
+    }
+  } catch (error) {
+    // origin/HEAD is not set
+  }
+
+  // 3. init.defaultBranch, then the usual names; remote copies are fresher than local ones
+  let defaultBranch = '';
+  try {
+    const { stdout } = await execGit(['config', 'init.defaultBranch']);
+    defaultBranch = stdout.trim();
+  } catch (error) {
+    // Not configured
+  }
+
+  for (const name of [defaultBranch, 'main', 'master'].filter(Boolean)) {
+    for (const ref of [`${remote}/${name}`, name]) {
+      if (ref !== currentBranch && await refExists(ref)) {
+        return ref;
+      }
+    }
+  }
+
+  return null;
+}
+
+function findTicketReferences(messages: string[]): string[] {
+  const tickets: string[] = [];
+  for (const message of messages) {
+    const prefix = extractMessagePrefix(message);
+    if (prefix) {
+      tickets.push(...splitPrefix(prefix));
+    }
+    for (const match of message.matchAll(/^(?:Refs|Closes|Fixes|Resolves|Ticket)\s*:\s*(.+)$/gim)) {
+      tickets.push(...match[1].split(/[,\s]+/).filter(Boolean));
+    }
+  }
+  return [...new Set(tickets)];
+}
+
+function formatTicketLink(ticket: string): string {
+  // GitHub links "#123" by itself
+  const ticketUrl = resolveSetting('pr.ticketUrl').value as string | undefined;
+  if (!ticketUrl || ticket.startsWith('#')) {
+    return ticket;
+  }
+  return `[${ticket}](${ticketUrl.replace('{ticket}', encodeURIComponent(ticket))})`;
+}
+
+function renderPullRequestBody(draft: PullRequestDraft, tickets: string[]): string {
+  const list = (items: string[]) => items.map(item => `- ${item.replace(/^[-*]\s+/, '')}`).join('\n');
+  const sections = [
+    `## Summary\n\n${draft.summary.trim()}`,
+    `## Changes\n\n${list(draft.changes)}`,
+    `## Testing\n\n${draft.testing.length > 0 ? list(draft.testing) : '- [ ] Describe how this was tested'}`
+  ];
+
+  if (tickets.length > 0) {
+    sections.push(`## Tickets\n\n${list(tickets.map(formatTicketLink))}`);
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+// Changelog
+interface ChangelogEntry {
+  hash: string;
+  type: string | null;
+  scope: string | null;
+  subject: string;
+  breaking: string[];
+  tickets: string[];
+}
+
+// Section order and titles follow conventional-changelog
+const CHANGELOG_SECTIONS: { type: string; title: string }[] = [
+  { type: 'feat', title: 'Features' },
+  { type: 'fix', title: 'Bug Fixes' },
+  { type: 'perf', title: 'Performance Improvements' },
+  { type: 'revert', title: 'Reverts' },
+  { type: 'refactor', title: 'Code Refactoring' },
+  { type: 'docs', title: 'Documentation' },
+  { type: 'style', title: 'Styles' },
+  { type: 'test', title: 'Tests' },
+  { type: 'build', title: 'Build System' },
+  { type: 'ci', title: 'Continuous Integration' },
+  { type: 'chore', title: 'Chores' }
+];
+
+function parseChangelogEntry(hash: string, rawMessage: string): ChangelogEntry {
+  // Drop the banner wherever it ended up, then the ticket prefix in either format
+  const bannerText = getBannerText().trim();
+  const message = rawMessage
+    .split('\n')
+    .filter(line => line.trim() !== bannerText)
+    .join('\n')
+    .trim();
+
+  const [header, ...rest] = message.split('\n');
+  const unprefixed = stripMessagePrefix(header);
+  const match = unprefixed.trim().match(/^(\w+)(?:\(([^)]*)\))?(!)?: (.+)$/);
+
+  // A BREAKING CHANGE footer runs until the next footer or the end of the message
+  const breaking: string[] = [];
+  const body = rest.join('\n');
+  for (const footer of body.matchAll(/^BREAKING[ -]CHANGE:\s*([\s\S]*?)(?=\n[\w-]+(?: #|: )|\s*(?![\s\S]))/gm)) {
+    breaking.push(footer[1].replace(/\s*\n\s*/g, ' ').trim());
+  }
+  if (match && match[3] && breaking.length === 0) {
+    breaking.push(match[4].trim());
+  }
+
+  // The prefix comes first, then Refs/Closes footers
+  const tickets = findTicketReferences([message]);
+
+  return {
+    hash,
+    type: match ? match[1].toLowerCase() : null,
+    scope: match && match[2] ? match[2].trim() : null,
+    subject: (match ? match[4] : unprefixed).trim(),
+    breaking,
+    tickets
+  };
+}
+
+function renderChangelogEntry(entry: ChangelogEntry, text: string): string {
+  const tickets = entry.tickets.length > 0 ? ` (${entry.tickets.map(formatTicketLink).join(', ')})` : '';
+  return `- ${entry.scope ? `**${entry.scope}:** ` : ''}${text} (${entry.hash.substring(0, 7)})${tickets}`;
+}
+
+function renderChangelog(entries: ChangelogEntry[], heading: string, highlights?: string): string {
+  const lines: string[] = [`## ${heading}`, ''];
+
+  if (highlights) {
+    lines.push(highlights.trim(), '');
+  }
+
+  const breaking = entries.filter(entry => entry.breaking.length > 0);
+  if (breaking.length > 0) {
+    lines.push('### ⚠ BREAKING CHANGES', '');
+    for (const entry of breaking) {
+      for (const note of entry.breaking) {
+        lines.push(renderChangelogEntry(entry, note));
+      }
+    }
+    lines.push('');
+  }
+
+  // Known types in the usual order, then any other types, then non-conventional commits
+  const knownTypes = CHANGELOG_SECTIONS.map(section => section.type);
+  const otherTypes = [...new Set(entries.map(entry => entry.type).filter((type): type is string => !!type && !knownTypes.includes(type)))];
+  const sections = [
+    ...CHANGELOG_SECTIONS,
+    ...otherTypes.map(type => ({ type, title: type.charAt(0).toUpperCase() + type.slice(1) })),
+    { type: null, title: 'Other Changes' }
+  ];
+
+  for (const section of sections) {
+    // Grouped by scope: unscoped entries first, then scopes alphabetically
+    const sectionEntries = entries
+      .filter(entry => entry.type === section.type)
+      .sort((a, b) => (a.scope || '').localeCompare(b.scope || ''));
+    if (sectionEntries.length === 0) {
+      continue;
+    }
+
+    lines.push(`### ${section.title}`, '');
+    lines.push(...sectionEntries.map(entry => renderChangelogEntry(entry, entry.subject)));
+    lines.push('');
+  }
+
+  return lines.join('\n');
+}
+
+function prependToChangelog(filePath: string, section: string): void {
+  const existing = fs.existsSync(filePath) ? fs.readFileSync(filePath, 'utf8') : '';
+
+  // Keep a leading "# Changelog" title (and its intro) above the new release
+  const firstRelease = existing.search(/^## /m);
+  const intro = firstRelease === -1 ? existing : existing.slice(0, firstRelease);
+  const releases = firstRelease === -1 ? '' : existing.slice(firstRelease);
+  const header = intro.trim() ? `${intro.trimEnd()}\n\n` : '# Changelog\n\n';
+
+  fs.writeFileSync(filePath, `${header}${section.trimEnd()}\n${releases ? `\n${releases}` : ''}`);
+}
+
+// Split Staged Changes
+interface DiffUnit {
+  id: string;
+  file: string;
+  header: string;
+  // Hunk text, or the complete file diff when the file can't be split (new, deleted, renamed, binary)
+  patch: string;
+  wholeFile: boolean;
+  hunkIndex: number;
+  hunkCount: number;
+}
+
+interface SplitGroup {
+  message: string;
+  units: DiffUnit[];
+}
+
+function getDiffFileName(header: string): string {
+  const newFile = header.match(/^\+\+\+ b\/(.*)$/m);
+  if (newFile) {
+    return newFile[1];
+  }
+  const oldFile = header.match(/^--- a\/(.*)$/m);
+  if (oldFile) {
+    return oldFile[1];
+  }
+  const gitHeader = header.match(/^diff --git a\/.* b\/(.*)$/m);
+  return gitHeader ? gitHeader[1] : '(unknown)';
+}
+
+function parseDiffUnits(diff: string): DiffUnit[] {
+  const units: DiffUnit[] = [];
+
+  for (const fileDiff of diff.split(/(?=^diff --git )/m)) {
+    if (!fileDiff.startsWith('diff --git ')) {
+      continue;
+    }
+
+    const [header, ...hunks] = fileDiff.split(/(?=^@@ )/m);
+    const file = getDiffFileName(fileDiff);
+    const wholeFile = hunks.length <= 1 ||
+      /^(new file mode|deleted file mode|rename from|copy from|old mode|Binary files|GIT binary patch)/m.test(header);
+
+    if (wholeFile) {
+      units.push({ id: `H${units.length + 1}`, file, header, patch: fileDiff, wholeFile, hunkIndex: 1, hunkCount: 1 });
+      continue;
+    }
+
+    hunks.forEach((hunk, index) => {
+      units.push({
+        id: `H${units.length + 1}`,
+        file,
+        header,
+        patch: hunk,
+        wholeFile: false,
+        hunkIndex: index + 1,
+        hunkCount: hunks.length
+      });
+    });
+  }
+
+  return units;
+}
+
+function buildPatch(units: DiffUnit[]): string {
+  // One section per file, with the selected hunks in their original order
+  const byHeader = new Map<string, DiffUnit[]>();
+  for (const unit of units) {
+    const key = unit.wholeFile ? unit.patch : unit.header;
+    byHeader.set(key, [...(byHeader.get(key) || []), unit]);
+  }
+
+  return [...byHeader.values()].map(fileUnits => {
+    if (fileUnits[0].wholeFile) {
+      return fileUnits[0].patch;
+    }
+    const sorted = [...fileUnits].sort((a, b) => a.hunkIndex - b.hunkIndex);
+    return sorted[0].header + sorted.map(unit => unit.patch).join('');
+  }).join('');
+}
+
+function describeUnits(units: DiffUnit[]): string {
+  const byFile = new Map<string, DiffUnit[]>();
+  for (const unit of units) {
+    byFile.set(unit.file, [...(byFile.get(unit.file) || []), unit]);
+  }
+
+  return [...byFile].map(([file, fileUnits]) => {
+    const hunkCount = fileUnits[0].hunkCount;
+    if (fileUnits[0].wholeFile || fileUnits.length === hunkCount) {
+      return file;
+    }
+    return `${file} (hunk${fileUnits.length > 1 ? 's' : ''} ${fileUnits.map(unit => unit.hunkIndex).join(', ')} of ${hunkCount})`;
+  }).join(', ');
+}
+
+function parseSplitResponse(text: string, units: DiffUnit[]): { message: string; hunks: string[] }[] {
+  const plan = parseJsonResponse(text, 'commit plan') as { commits?: { message?: unknown; hunks?: unknown }[] };
+
+  const knownIds = new Set(units.map(unit => unit.id));
+  const assigned = new Set<string>();
+  const commits: { message: string; hunks: string[] }[] = [];
+
+  for (const commit of plan.commits || []) {
+    if (typeof commit.message !== 'string' || !Array.isArray(commit.hunks)) {
+      continue;
+    }
+    // Each hunk goes to the first commit that claims it; unknown IDs are dropped
+    const hunks = commit.hunks.filter((id): id is string =>
+      typeof id === 'string' && knownIds.has(id) && !assigned.has(id));
+    hunks.forEach(id => assigned.add(id));
+    if (hunks.length > 0) {
+      commits.push({ message: commit.message.trim(), hunks });
+    }
+  }
+
+  if (commits.length === 0) {
+    throw new Error('The model returned an empty commit plan');
+  }
+
+  // Hunks the model forgot are added to the last commit so nothing is left behind
+  const missing = units.map(unit => unit.id).filter(id => !assigned.has(id));
+  if (missing.length > 0) {
+    logger.warn(`⚠️  ${missing.length} hunk${missing.length > 1 ? 's were' : ' was'} not assigned by the model, adding to the last commit`);
+    commits[commits.length - 1].hunks.push(...missing);
+  }
+
+  return commits;
+}
+
+interface LLMProvider {
+  readonly name: ProviderName;
+  readonly model: string;
+  // The first provider of a fallback chain; name and model report the one that answered last
+  readonly primary?: LLMProvider;
+  generate(prompt: string): Promise<string>;
+}
+
+function getRequestTimeoutMs(): number {
+  // Precedence: env var > repository/global config > default (60 seconds); 0 waits indefinitely
+  const seconds = resolveSetting('request.timeoutSeconds').value as number;
+  if (!(seconds >= 0)) {
+    throw new ConfigError(`request.timeoutSeconds must be 0 or more, got ${seconds}`);
+  }
+  return seconds * 1000;
+}
+
+function parseRetryAfter(value: string | null | undefined): number | undefined {
+  // Seconds ("30", or "1.5s" in Gemini's RetryInfo) or an HTTP date
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = value.match(/^\s*(\d+(?:\.\d+)?)s?\s*$/);
+  if (seconds) {
+    return Math.round(Number(seconds[1]) * 1000);
+  }
+
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
+
+function classifyHttpFailure(message: string, status: number, body: string, retryAfterMs?: number): ModelRequestError {
+  // Gemini answers an invalid key with 400 API_KEY_INVALID
+  if (status === 401 || status === 403 || (status === 400 && /api[ _-]?key/i.test(body))) {
+    return new ModelRequestError(message, 'auth', status);
+  }
+  if (status === 429) {
+    // An empty balance won't come back by retrying, a per-minute limit will
+    const exhausted = /insufficient_quota|billing|check your plan/i.test(body);
+    return new ModelRequestError(message, 'quota', status, retryAfterMs, !exhausted);
+  }
+  if (status === 408) {
+    return new ModelRequestError(message, 'timeout', status, retryAfterMs);
+  }
+  if (status >= 500) {
+    return new ModelRequestError(message, 'server', status, retryAfterMs);
+  }
+  if (/safety|content[ _-]?filter|content_policy/i.test(body)) {
+    return new ModelRequestError(message, 'safety', status);
+  }
+  return new ModelRequestError(message, 'request', status);
+}
+
+async function fetchModel(service: string, url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const signal = timeoutMs > 0 ? AbortSignal.timeout(timeoutMs) : undefined;
+
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, signal });
+  } catch (error) {
+    if (signal?.aborted) {
+      throw new ModelRequestError(`${service} did not answer within ${timeoutMs / 1000}s`, 'timeout');
+    }
+    const cause = error instanceof Error && error.cause instanceof Error ? `: ${error.cause.message}` : '';
+    throw new ModelRequestError(`Could not reach ${service} (${error instanceof Error ? error.message : error}${cause})`, 'network');
+  }
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw classifyHttpFailure(`${service} returned ${response.status} ${response.statusText}: ${body}`, response.status, body, parseRetryAfter(response.headers.get('retry-after')));
+  }
+  return response;
+}
+
+function classifyGeminiFailure(error: unknown, timeoutMs: number, signal?: AbortSignal): ModelRequestError {
+  const message = error instanceof Error ? error.message : String(error);
+  if (signal?.aborted) {
+    return new ModelRequestError(`Gemini did not answer within ${timeoutMs / 1000}s`, 'timeout');
+  }
+  if (error instanceof GoogleGenerativeAIFetchError && error.status) {
+    // Rate limits name their delay in a RetryInfo detail instead of a header
+    const retryInfo = error.errorDetails?.find(detail => String(detail['@type']).endsWith('RetryInfo'));
+    return classifyHttpFailure(message, error.status, `${message} ${JSON.stringify(error.errorDetails ?? '')}`, parseRetryAfter(retryInfo?.retryDelay as string | undefined));
+  }
+  if (error instanceof GoogleGenerativeAIResponseError) {
+    return new ModelRequestError(message, /blocked/i.test(message) ? 'safety' : 'unknown');
+  }
+  if (error instanceof GoogleGenerativeAIError && /Error fetching from/.test(message)) {
+    return new ModelRequestError(message, 'network');
+  }
+  return new ModelRequestError(message, 'unknown');
+}
+
+class GeminiProvider implements LLMProvider {
+  readonly name: ProviderName = 'gemini';
+  private genAI: GoogleGenerativeAI;
+
+  constructor(apiKey: string, readonly model: string, private timeoutMs: number = getRequestTimeoutMs()) {
+    this.genAI = new GoogleGenerativeAI(apiKey);
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const generativeModel = this.genAI.getGenerativeModel({ model: this.model });
+    // A signal rather than the SDK's timeout option, whose timer would keep the process alive
+    const signal = this.timeoutMs > 0 ? AbortSignal.timeout(this.timeoutMs) : undefined;
+    try {
+      const result = await generativeModel.generateContent(prompt, { signal });
+      return result.response.text();
+    } catch (error) {
+      throw classifyGeminiFailure(error, this.timeoutMs, signal);
+    }
+  }
+}
+
+class OpenAICompatibleProvider implements LLMProvider {
+  readonly name: ProviderName = 'openai';
+
+  constructor(private baseUrl: string, readonly model: string, private apiKey?: string, private timeoutMs: number = getRequestTimeoutMs()) {}
+
+  async generate(prompt: string): Promise<string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+      // Azure OpenAI authenticates API keys through its own header
+      if (/\.azure\.com/i.test(this.baseUrl)) {
+        headers['api-key'] = this.apiKey;
+      }
+    }
+
+    const response = await fetchModel('OpenAI-compatible API', `${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }]
+      })
+    }, this.timeoutMs);
+
+    const data = await response.json() as { choices?: { message?: { content?: string }; finish_reason?: string }[] };
+    if (data.choices?.[0]?.finish_reason === 'content_filter') {
+      throw new ModelRequestError('OpenAI-compatible API blocked the response (content filter)', 'safety');
+    }
+    const content = data.choices?.[0]?.message?.content;
+    if (typeof content !== 'string') {
+      throw new Error('OpenAI-compatible API returned no message content');
+    }
+    return content;
+  }
+}
+
+class OllamaProvider implements LLMProvider {
+  readonly name: ProviderName = 'ollama';
+
+  constructor(private baseUrl: string, readonly model: string, private timeoutMs: number = getRequestTimeoutMs()) {}
+
+  async generate(prompt: string): Promise<string> {
+    let response: Response;
+    try {
+      response = await fetchModel('Ollama', `${this.baseUrl}/api/generate`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: this.model, prompt, stream: false })
+      }, this.timeoutMs);
+    } catch (error) {
+      if (error instanceof ModelRequestError && error.kind === 'network') {
+        throw new ModelRequestError(`Could not reach Ollama at ${this.baseUrl}. Is "ollama serve" running? (${error.message})`, 'network');
+      }
+      throw error;
+    }
+
+    const data = await response.json() as { response?: string };
+    if (typeof data.response !== 'string') {
+      throw new Error('Ollama returned no response text');
+    }
+    return data.response;
+  }
+}
+
+interface ModelFixture {
+  prompt: string;
+  response: string;
+}
+
+function getFixturesDir(cliDir?: string): string {
+  // Precedence: CLI flag (--fixtures) > env var > repository/global config > default.
+  // Relative paths are resolved from the repository root
+  const dir = cliDir || resolveSetting('replay.dir').value as string;
+  const expanded = dir.replace(/^~(?=$|\/)/, os.homedir());
+  return path.resolve(findRepoRoot() || process.cwd(), expanded);
+}
+
+function getFixturePath(dir: string, prompt: string): string {
+  const hash = createHash('sha256').update(prompt).digest('hex').slice(0, 16);
+  return path.join(dir, `${hash}.json`);
+}
+
+// Serves recorded responses, so runs and tests are deterministic and need no network or key
+class ReplayProvider implements LLMProvider {
+  readonly name: ProviderName = 'replay';
+
+  constructor(private dir: string, readonly model: string = 'fixtures') {}
+
+  async generate(prompt: string): Promise<string> {
+    const fixturePath = getFixturePath(this.dir, prompt);
+    if (!fs.existsSync(fixturePath)) {
+      throw new Error(`No fixture for this prompt (${path.relative(process.cwd(), fixturePath) || fixturePath}). Record it with --record and a real provider`);
+    }
+
+    try {
+      const fixture = JSON.parse(fs.readFileSync(fixturePath, 'utf8')) as ModelFixture;
+      return fixture.response;
+    } catch (error) {
+      throw new Error(`Failed to read fixture ${fixturePath}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+}
+
+// Wraps a real provider and saves each response as a fixture for the replay provider (--record)
+class RecordingProvider implements LLMProvider {
+  constructor(private provider: LLMProvider, private dir: string) {}
+
+  get name(): ProviderName {
+    return this.provider.name;
+  }
+
+  get model(): string {
+    return this.provider.model;
+  }
+
+  get primary(): LLMProvider | undefined {
+    return this.provider.primary;
+  }
+
+  async generate(prompt: string): Promise<string> {
+    const response = await this.provider.generate(prompt);
+    const fixture: ModelFixture = { prompt, response };
+
+    try {
+      fs.mkdirSync(this.dir, { recursive: true });
+      fs.writeFileSync(getFixturePath(this.dir, prompt), JSON.stringify(fixture, null, 2) + '\n');
+    } catch (error) {
+      logger.warn(`⚠️  Warning: Failed to record fixture in ${this.dir}: ${error instanceof Error ? error.message : error}`);
+    }
+    return response;
+  }
+}
+
+// Returns a fixed message, or one derived from the diff headers in the prompt. For trying
+// out the pipeline (prefix, banner, trailers, hooks) without a model
+class StubProvider implements LLMProvider {
+  readonly name: ProviderName = 'stub';
+  readonly model: string;
+
+  constructor(private message?: string) {
+    this.model = message ? 'fixed' : 'rules';
+  }
+
+  async generate(prompt: string): Promise<string> {
+    if (this.message) {
+      return this.message;
+    }
+
+    const files: { path: string; status: 'added' | 'deleted' | 'modified' }[] = [];
+    const headerPattern = /^diff --git a\/(\S+) b\/(\S+)\n(new file mode|deleted file mode)?/gm;
+    let match: RegExpExecArray | null;
+    while ((match = headerPattern.exec(prompt)) !== null) {
+      const status = match[3] === 'new file mode' ? 'added' : match[3] === 'deleted file mode' ? 'deleted' : 'modified';
+      files.push({ path: status === 'deleted' ? match[1] : match[2], status });
+    }
+
+    const subject = files.length === 1 ? path.basename(files[0].path) : `${files.length || 'the'} files`;
+    const paths = files.map(file => file.path);
+    if (files.length > 0 && files.every(file => file.status === 'added')) {
+      return `feat: add ${subject}`;
+    }
+    if (files.length > 0 && files.every(file => file.status === 'deleted')) {
+      return `chore: remove ${subject}`;
+    }
+    if (paths.length > 0 && paths.every(file => /\.(md|txt|rst)$/i.test(file))) {
+      return `docs: update ${subject}`;
+    }
+    if (paths.length > 0 && paths.every(file => /(^|\/)(tests?|__tests__)\/|\.(test|spec)\.[a-z]+$/i.test(file))) {
+      return `test: update ${subject}`;
+    }
+    return `chore: update ${subject}`;
+  }
+}
+
+function isApiKeyMissing(providerName: ProviderName): boolean {
+  switch (providerName) {
+    case 'gemini':
+      return !getApiKey();
+    case 'openai':
+      // Self-hosted endpoints (vLLM, LM Studio) usually don't need a key
+      return !getOpenAIApiKey() && getOpenAIBaseUrl() === 'https://api.openai.com/v1';
+    case 'ollama':
+    case 'replay':
+    case 'stub':
+      return false;
+  }
+}
+
+interface RetryPolicy {
+  maxRetries: number;
+  backoffMs: number;
+  maxDelayMs: number;
+}
+
+function getRetryPolicy(): RetryPolicy {
+  // Precedence: env var > repository/global config > default
+  const maxRetries = resolveSetting('request.maxRetries').value as number;
+  if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+    throw new ConfigError(`request.maxRetries must be a whole number of 0 or more, got ${maxRetries}`);
+  }
+  return {
+    maxRetries,
+    backoffMs: (resolveSetting('request.backoffSeconds').value as number) * 1000,
+    maxDelayMs: (resolveSetting('request.maxRetryDelaySeconds').value as number) * 1000
+  };
+}
+
+function toModelRequestError(error: unknown): ModelRequestError {
+  return error instanceof ModelRequestError ? error : new ModelRequestError(error instanceof Error ? error.message : String(error), 'unknown');
+}
+
+interface FallbackModel {
+  provider: ProviderName;
+  model: string;
+}
+
+// Retries transient failures with exponential backoff (or the provider's Retry-After), then
+// moves on to the fallback models in order. name and model are the ones that answered last.
+// Fallbacks are built when first reached, so one without an API key only matters then
+class ResilientProvider implements LLMProvider {
+  private current: LLMProvider;
+  // undefined: not built yet, null: unusable and skipped
+  private fallbackProviders: (LLMProvider | null | undefined)[];
+
+  constructor(private primaryProvider: LLMProvider, private fallbacks: FallbackModel[], private policy: RetryPolicy) {
+    this.current = primaryProvider;
+    this.fallbackProviders = fallbacks.map(() => undefined);
+  }
+
+  get name(): ProviderName {
+    return this.current.name;
+  }
+
+  get model(): string {
+    return this.current.model;
+  }
+
+  get primary(): LLMProvider {
+    return this.primaryProvider;
+  }
+
+  async generate(prompt: string): Promise<string> {
+    let lastFailure: ModelRequestError | undefined;
+
+    for (let index = 0; index <= this.fallbacks.length; index++) {
+      const provider = index === 0 ? this.primaryProvider : this.getFallback(index - 1);
+      if (!provider) {
+        continue;
+      }
+
+      if (lastFailure) {
+        logger.info(`↪️  Falling back to ${provider.name}: ${provider.model}`);
+      }
+
+      try {
+        const response = await this.generateWithRetries(provider, prompt);
+        this.current = provider;
+        return response;
+      } catch (error) {
+        lastFailure = toModelRequestError(error);
+        if (this.fallbacks.length > 0) {
+          logger.info(`⚠️  ${provider.name}: ${provider.model} failed (${lastFailure.kind}): ${lastFailure.message}`);
+        }
+      }
+    }
+
+    throw lastFailure;
+  }
+
+  private getFallback(index: number): LLMProvider | null {
+    let provider = this.fallbackProviders[index];
+    if (provider === undefined) {
+      const { provider: providerName, model } = this.fallbacks[index];
+      try {
+        provider = createModelProvider(providerName, model);
+      } catch (error) {
+        logger.warn(`⚠️  Skipping fallback ${providerName}: ${model}: ${error instanceof Error ? error.message : error}`);
+        provider = null;
+      }
+      this.fallbackProviders[index] = provider;
+    }
+    return provider;
+  }
+
+  private async generateWithRetries(provider: LLMProvider, prompt: string): Promise<string> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await provider.generate(prompt);
+      } catch (error) {
+        const failure = toModelRequestError(error);
+        const delay = failure.retryAfterMs ?? this.policy.backoffMs * 2 ** (attempt - 1);
+        // A long Retry-After is better spent on the next model than waiting
+        if (!failure.transient || attempt > this.policy.maxRetries || delay > this.policy.maxDelayMs) {
+          throw failure;
+        }
+
+        logger.info(`⏳ ${provider.model}: ${failure.kind === 'quota' ? 'rate limited' : `${failure.kind} error`}${failure.status ? ` (${failure.status})` : ''}, retrying in ${Math.round(delay / 100) / 10}s (${attempt}/${this.policy.maxRetries})...`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+}
+
+function getFallbackModels(providerName: ProviderName): FallbackModel[] {
+  // "model" uses the selected provider, "provider:model" another one (e.g. "ollama:qwen2.5-coder:7b")
+  const entries = resolveSetting('fallbackModels').value as string[];
+  return entries.map(entry => {
+    const separator = entry.indexOf(':');
+    const candidate = separator === -1 ? '' : entry.slice(0, separator).toLowerCase();
+    return SUPPORTED_PROVIDERS.includes(candidate as ProviderName) ?
+      { provider: candidate as ProviderName, model: entry.slice(separator + 1) } :
+      { provider: providerName, model: entry };
+  });
+}
+
+function createProvider(providerName: ProviderName, modelName?: string): LLMProvider {
+  return new ResilientProvider(createModelProvider(providerName, modelName), getFallbackModels(providerName), getRetryPolicy());
+}
+
+function createModelProvider(providerName: ProviderName, modelName?: string): LLMProvider {
+  if (isApiKeyMissing(providerName)) {
+    throw new ConfigError(`API key is required for provider "${providerName}"`, getMissingApiKeyHint(providerName));
+  }
+
+  // Precedence: provided modelName > env vars > global config > provider default
+  switch (providerName) {
+    case 'gemini':
+      return new GeminiProvider(getApiKey()!, modelName || getDefaultModel());
+    case 'openai':
+      return new OpenAICompatibleProvider(getOpenAIBaseUrl(), modelName || getOpenAIModel(), getOpenAIApiKey());
+    case 'ollama':
+      return new OllamaProvider(getOllamaBaseUrl(), modelName || getOllamaModel());
+    case 'replay':
+      return new ReplayProvider(getFixturesDir(), modelName);
+    case 'stub':
+      return new StubProvider(resolveSetting('stub.message').value as string | undefined);
+  }
+}
+
+function getMissingApiKeyHint(providerName: ProviderName): string {
+  if (providerName === 'openai') {
+    return [
+      'Set your OpenAI API key using one of these methods:',
+      '',
+      '1. Environment variables:',
+      '   export COMMIT_GENIUS_OPENAI_API_KEY="your_api_key_here"',
+      '   export OPENAI_API_KEY="your_api_key_here"',
+      '',
+      '2. Global config file (~/.commit-genius.json):',
+      '   {',
+      '     "provider": "openai",',
+      '     "openai": { "apiKey": "your_api_key_here", "model": "gpt-4o-mini" }',
+      '   }',
+      '',
+      'For a self-hosted OpenAI-compatible server, set "openai.baseUrl" instead.'
+    ].join('\n');
+  }
+
+  return [
+    'Set your Gemini API key using one of these methods:',
+    '',
+    '1. Environment variables:',
+    '   export COMMIT_GENIUS_API_KEY="your_api_key_here"',
+    '   export GEMINI_API_KEY="your_api_key_here"  # Legacy',
+    '',
+    '2. Global config file (~/.commit-genius.json):',
+    '   {',
+    '     "apiKey": "your_api_key_here",',
+    '     "model": "gemini-2.5-flash-lite",',
+    '     "prefixFormat": "brackets"',
+    '   }',
+    '',
+    '3. Local .env file (for project-specific setup):',
+    '   COMMIT_GENIUS_API_KEY=your_api_key_here'
+  ].join('\n');
+}
+
+// Where generate() reads the change from: the staged changes (default), the last commit,
+// or a diff the caller already has
+type DiffSource = 'staged' | 'last-commit' | { diff: string; fileSummary?: string };
+
+// Options of the library API. Anything left out is resolved like the CLI does it
+// (env vars, repository and global config), unless useConfig is false
+interface GenerateOptions extends TrailerOptions {
+  provider: LLMProvider;
+  diff?: DiffSource;
+  // Used instead of the staged notes
+  notes?: (string | { message: string; category?: NoteCategory })[];
+  // A ticket prefix, or null for none; detected from the branch when left out
+  prefix?: string | null;
+  messageStyle?: MessageStyle;
+  candidates?: number;
+  instructions?: string[];
+  learnStyle?: boolean;
+  blockOnSecrets?: boolean;
+  cache?: boolean;
+  // false: ignore env vars, config files and prompt templates; what is left out uses its default
+  useConfig?: boolean;
+  logger?: Logger;
+}
+
+interface GenerateResult {
+  // The first candidate, with prefix, banner and trailers applied
+  message: string;
+  candidates: string[];
+  subject: string;
+  body: string;
+  footers: string[];
+  prefix: string | null;
+  provider: ProviderName;
+  model: string;
+  files: number;
+  notes: { message: string; category: NoteCategory }[];
+  fallbackSummary: boolean;
+  cached: boolean;
+}
+
+// The notes and cache entry behind each result, for commit() and amend()
+const generatedStates = new WeakMap<GenerateResult, GeneratedState>();
+
+interface CommitOptions {
+  // The result the message came from: its staged notes and cached messages are cleared once it is committed
+  generated?: GenerateResult;
+  logger?: Logger;
+}
+
+// The --json output of a commit, --regenerate or dry run
+interface CommitResult extends Omit<GenerateResult, 'candidates'> {
+  committed: boolean;
+  amended: boolean;
+  aborted: boolean;
+  hash: string | null;
+}
+
+interface StagedChanges {
+  fileChanges: string;
+  // null when the diff was too large to read
+  rawDiff: string | null;
+  // The redacted diff
+  diff: string | null;
+  excludedNote: string;
+}
+
+// A diff, notes and prefix read once; the review step regenerates from it without reading git again
+interface GenerationInput {
+  // What the model sees. Large diffs are summarized by the model, so this only runs
+  // when a message is generated, not when it comes from the cache
+  diff: () => Promise<string>;
+  // Cache entry for these changes and settings; null when caching is off
+  cacheKey: string | null;
+  context: PromptContext;
+  prefix: string | null;
+  prefixFormat: 'brackets' | 'colon';
+  messageStyle: MessageStyle;
+  candidates: number;
+  banner: boolean;
+  trailers: string[];
+}
+
+interface CommitMessageOptions {
+  dryRun?: boolean;
+  model?: string;
+  provider?: string;
+  messageStyle?: string;
+  prefix?: string;
+  debug?: boolean;
+  regenerate?: boolean;
+  interactive?: boolean;
+  banner?: boolean;
+  messageFile?: string;
+  blockOnSecrets?: boolean;
+  candidates?: string;
+  yes?: boolean;
+  learnStyle?: boolean;
+  reword?: string;
+  force?: boolean;
+  base?: string;
+  output?: string;
+  from?: string;
+  to?: string;
+  highlights?: boolean;
+  refs?: RefsTrailerMode;
+  pair?: string[];
+  signOff?: boolean;
+  bannerTrailer?: boolean;
+  cache?: boolean;
+}
+
+class AICommitGenerator {
+  private provider: LLMProvider;
+  private commitStyles = new Map<string, CommitStyle>();
+  // Staged notes that went into a prompt during this run; only these are cleared after committing
+  private usedNotes = new Map<string, StagedNote>();
+  private cacheEnabled = false;
+  // Cache entry of the messages shown in this run; forgotten once one of them is committed
+  private cacheKey: string | null = null;
+  // What the model saw in this run, for --json
+  private filesChanged = 0;
+  private fallbackSummary = false;
+  private usedCache = false;
+
+  constructor(provider: LLMProvider) {
+    this.provider = provider;
+  }
+
+  async getFileChangeSummary(): Promise<string> {
+    try {
+      // Get file change summary (much smaller than full diff)
+      const { stdout } = await execGit(['diff', '--cached', '--name-status']);
+      return stdout.trim();
+    } catch (error) {
+      throw new GitError(`Failed to get file changes: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  redactDiff(diff: string, blockOnSecrets: boolean = false): string {
+    if (resolveSetting('redaction.enabled').value === false) {
+      return diff;
+    }
+
+    const { text, findings } = redactSecrets(diff, getRedactionRules(), loadConfig().redaction?.allowlist);
+    if (findings.length === 0) {
+      return diff;
+    }
+
+    const summary = findings.map(finding => `${finding.rule}${finding.file ? ` in ${finding.file}` : ''}`);
+    const counts = new Map<string, number>();
+    summary.forEach(line => counts.set(line, (counts.get(line) || 0) + 1));
+    const lines = [...counts].map(([line, count]) => `   • ${line}${count > 1 ? ` (×${count})` : ''}`);
+
+    if (blockOnSecrets) {
+      throw new SecretsFoundError(`Found ${findings.length} potential secret${findings.length > 1 ? 's' : ''} in the diff, aborting (--block-on-secrets):\n${lines.join('\n')}`, findings);
+    }
+
+    logger.info(`🔒 Redacted ${findings.length} potential secret${findings.length > 1 ? 's' : ''} before sending the diff:`);
+    logger.info(lines.join('\n'));
+    return text;
+  }
+
+  async checkStagedChanges(options: { blockOnSecrets?: boolean; summarize?: boolean } = {}): Promise<string> {
+    const staged = await this.readStagedChanges(options.blockOnSecrets);
+    return staged ? this.describeStagedChanges(staged, options.summarize) : '';
+  }
+
+  // Reads and redacts the staged changes. Nothing here calls the model
+  async readStagedChanges(blockOnSecrets: boolean = false): Promise<StagedChanges | null> {
+    let staged: Omit<StagedChanges, 'diff'>;
+
+    try {
+      // First, get file change summary for large commits
+      const fileChanges = await this.getFileChangeSummary();
+
+      if (!fileChanges) {
+        return null;
+      }
+
+      this.filesChanged = fileChanges.split('\n').length;
+      logger.info(`📁 Files changed: ${this.filesChanged}`);
+
+      // Leave lockfiles, generated and vendored files out of the diff, but keep their names
+      const excludePathspecs = await getDiffExcludePathspecs();
+      const includedFiles = new Set(await getStagedFileNames([':/', ...excludePathspecs]));
+      const excludedFiles = fileChanges.split('\n').filter(line => {
+        const file = line.split('\t').pop() || '';
+        return !includedFiles.has(file);
+      });
+
+      let excludedNote = '';
+      if (excludedFiles.length > 0) {
+        logger.info(`🙈 Excluded ${excludedFiles.length} file${excludedFiles.length > 1 ? 's' : ''} from the AI diff (lockfiles, generated or ignored)`);
+        excludedNote = `
+
+Also changed, content not shown (lockfiles, generated, vendored or ignored files):
+${excludedFiles.join('\n')}`;
+      }
+
+      // Try to get the full diff, but handle large diffs intelligently
+      let rawDiff: string | null;
+      try {
+        const { stdout } = await execGit(['diff', '--cached', '--', ':/', ...excludePathspecs], { maxBuffer: 1024 * 1024 * 10 });
+        rawDiff = stdout.trim();
+      } catch (bufferError) {
+        // If diff is too large even with increased buffer, fall back to file summary
+        logger.info('⚠️  Diff too large for processing. Using file change summary for AI analysis...');
+        this.fallbackSummary = true;
+        rawDiff = null;
+      }
+
+      staged = { fileChanges, rawDiff, excludedNote };
+    } catch (error) {
+      throw new GitError(`Failed to get git diff: ${error instanceof Error ? error.message : error}. Make sure you are in a git repository.`);
+    }
+
+    if (staged.rawDiff === null) {
+      return { ...staged, diff: null };
+    }
+
+    // Redact before anything is sent to the model, including chunk summaries
+    const diff = this.redactDiff(staged.rawDiff, blockOnSecrets);
+    if (diff.length > MAX_DIFF_LENGTH) {
+      this.fallbackSummary = true;
+    }
+    return { ...staged, diff };
+  }
+
+  // What the model sees: the diff or, for large diffs, chunk summaries written by the model
+  // (unless summarize is false) or a summary of the changed files
+  async describeStagedChanges(staged: StagedChanges, summarize: boolean = true): Promise<string> {
+    if (staged.diff === null) {
+      const { stdout: statDiff } = await execGit(['diff', '--cached', '--stat']);
+
+      return `Files changed:
+${staged.fileChanges}
+
+File statistics:
+${statDiff}
+
+Note: This is a very large commit. The commit message is generated based on file changes and statistics.`;
+    }
+
+    const diff = staged.diff;
+    if (diff.length > MAX_DIFF_LENGTH) {
+      // Chunk summaries need the model, so previews show the file summary fallback instead
+      const chunkSummary = summarize ? await this.summarizeLargeDiff(diff, staged.fileChanges) : null;
+      if (chunkSummary) {
+        return chunkSummary + staged.excludedNote;
+      }
+
+      logger.info(`⚠️  Large diff detected (${Math.round(diff.length / 1024)}KB). Using file summary + limited diff for AI analysis...`);
+
+      // Get a more concise diff with just file names and stats
+      const { stdout: statDiff } = await execGit(['diff', '--cached', '--stat']);
+      const { stdout: shortDiff } = await execGit(['diff', '--cached', '--name-only']);
+
+      return `Files changed:
+${staged.fileChanges}
+
+File statistics:
+${statDiff}
+
+Files modified:
+${shortDiff}
+
+Note: This is a large commit with ${Math.round(diff.length / 1024)}KB of changes.
+The commit message is generated based on file changes rather than detailed diff content.`;
+    }
+
+    return diff + staged.excludedNote;
+  }
+
+  async summarizeLargeDiff(diff: string, fileChanges: string): Promise<string | null> {
+    // Map-reduce: summarize each chunk of the diff, then write the message from the summaries.
+    // Returns null when the diff needs more chunks than allowed or summarizing fails.
+    const chunkTokenBudget = getChunkTokenBudget();
+    const maxChunks = getMaxChunks();
+    if (maxChunks <= 0) {
+      return null;
+    }
+
+    const chunks = splitDiffIntoChunks(diff, chunkTokenBudget * CHARS_PER_TOKEN);
+    if (chunks.length > maxChunks) {
+      logger.info(`⚠️  Large diff needs ${chunks.length} chunks (max ${maxChunks}), skipping chunked summarization`);
+      return null;
+    }
+
+    logger.info(`🧩 Large diff detected (${Math.round(diff.length / 1024)}KB). Summarizing in ${chunks.length} chunk${chunks.length > 1 ? 's' : ''}...`);
+
+    const summaries: string[] = [];
+    try {
+      for (let i = 0; i < chunks.length; i++) {
+        logger.info(`   🧩 Summarizing chunk ${i + 1}/${chunks.length}...`);
+        const summary = await this.provider.generate(`
+You are an expert developer reviewing part ${i + 1} of ${chunks.length} of a large git diff.
+
+Summarize what changed in this part in 2-6 short bullet points:
+- Name the files, modules or functions involved
+- Describe behavior changes, not line-by-line edits
+- Mention anything that looks like a breaking change, a migration or a bug fix
+- Return ONLY the bullet points
+
+Git diff (part ${i + 1}/${chunks.length}):
+${chunks[i]}
+
+Summary:`);
+        summaries.push(`Part ${i + 1}:\n${summary.trim()}`);
+      }
+    } catch (error) {
+      logger.info(`⚠️  Chunked summarization failed (${error instanceof Error ? error.message : error})`);
+      return null;
+    }
+
+    return `${CHUNK_SUMMARY_HEADER}
+${summaries.join('\n\n')}
+
+Files changed:
+${fileChanges}`;
+  }
+
+  async buildCommitPrompt(diff: string, messageStyle: MessageStyle = 'subject', instructions: string[] = [], context: PromptContext = {}): Promise<string> {
+    const isChunkSummary = diff.startsWith(CHUNK_SUMMARY_HEADER);
+    const isFileSummary = !isChunkSummary && (diff.includes('Files changed:') || diff.includes('Note: This is a'));
+    const stagedNotes = context.notes ?? (context.useNotes === false ? [] : await loadStagedNotes());
+    stagedNotes.forEach(note => this.usedNotes.set(getNoteKey(note), note));
+    const { template, source } = loadPromptTemplate();
+    const fileSummary = context.fileSummary ?? await this.getFileChangeSummary();
+    const style = getLearnStyle(context.learnStyle) ?
+      await this.getCommitStyle(context.historyBase || 'HEAD', fileSummary, messageStyle) :
+      null;
+
+    const variables: PromptVariables = {
+      diff,
+      fileSummary,
+      notes: formatNotesForPrompt(stagedNotes),
+      branch: await getCurrentBranch() || '',
+      prefix: context.prefix || '',
+      recentCommits: await getRecentCommitSubjects(),
+      types: (style && style.types.length > 0 ? style.types : getCommitTypes()).join(', '),
+      scopes: style ? style.scopes.join(', ') : '',
+      styleExamples: style ? style.examples.map(example => `---\n${example}`).join('\n') + (style.examples.length > 0 ? '\n---' : '') : '',
+      instructions: instructions.map(instruction => `- ${instruction}`).join('\n'),
+      messageStyle,
+      full: messageStyle === 'full',
+      isFileSummary,
+      isChunkSummary,
+      subjectMaxLength: String(SUBJECT_MAX_LENGTH),
+      bodyLineWidth: String(BODY_LINE_WIDTH)
+    };
+
+    try {
+      return renderPromptTemplate(template, variables);
+    } catch (error) {
+      throw new ConfigError(`Failed to render prompt template (${source}): ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async prepareGeneration(options: Omit<GenerateOptions, 'provider' | 'logger'>): Promise<GenerationInput> {
+    this.cacheEnabled = isCacheEnabled(options.cache);
+    const blockOnSecrets = getBlockOnSecrets(options.blockOnSecrets);
+    const source = options.diff ?? 'staged';
+    const context: PromptContext = { learnStyle: options.learnStyle };
+
+    // The cache key uses the diff as git printed it, so a large diff doesn't have to be
+    // summarized again just to find out that its message is cached
+    let rawDiff: string;
+    let diff: () => Promise<string>;
+    if (source === 'staged') {
+      const staged = await this.readStagedChanges(blockOnSecrets);
+      if (!staged) {
+        throw new NoStagedChangesError();
+      }
+      rawDiff = `${staged.rawDiff ?? staged.fileChanges}${staged.excludedNote}`;
+      let described: Promise<string> | undefined;
+      diff = () => described ??= this.describeStagedChanges(staged);
+    } else {
+      if (source === 'last-commit') {
+        // The message is meant for amend(), which can't keep a signature without commit.gpgsign
+        await warnAboutSignatures(['HEAD']);
+        rawDiff = (await getLastCommitInfo()).diff;
+        context.fileSummary = await getCommitFileSummary();
+        context.historyBase = 'HEAD~1';
+      } else {
+        rawDiff = source.diff.trim();
+        context.fileSummary = source.fileSummary?.trim() ?? '';
+      }
+      if (!rawDiff) {
+        throw new NoStagedChangesError('There are no changes to describe');
+      }
+      const redacted = this.redactDiff(rawDiff, blockOnSecrets);
+      diff = () => Promise.resolve(redacted);
+    }
+    if (context.fileSummary !== undefined) {
+      this.filesChanged = context.fileSummary ? context.fileSummary.split('\n').length : 0;
+    }
+
+    if (options.notes) {
+      context.notes = options.notes.map(note => typeof note === 'string' ?
+        { message: note, timestamp: new Date() } :
+        { message: note.message, category: note.category, timestamp: new Date() });
+    } else {
+      context.notes = await loadStagedNotes();
+      if (context.notes.length > 0) {
+        logger.info(`📝 Using ${context.notes.length} staged note${context.notes.length > 1 ? 's' : ''} for context`);
+      }
+    }
+
+    // null means no prefix at all, not even one from the branch
+    const prefix = options.prefix === null ? null : await getPrefix(options.prefix);
+    context.prefix = prefix;
+
+    const messageStyle = getMessageStyle(options.messageStyle);
+    // Keyed on the model asked for, so an answer from a fallback is found again next time
+    const requested = this.provider.primary ?? this.provider;
+    const cacheKey = this.cacheEnabled ? getGenerationCacheKey([
+      requested.name,
+      requested.model,
+      messageStyle,
+      JSON.stringify(loadLintRules()?.rules ?? null),
+      loadPromptTemplate().template,
+      prefix ?? '',
+      String(getLearnStyle(options.learnStyle)),
+      JSON.stringify(context.notes.map(note => [note.category ?? 'general', note.message])),
+      rawDiff
+    ]) : null;
+
+    return {
+      diff,
+      cacheKey,
+      context,
+      prefix,
+      prefixFormat: loadConfig().prefixFormat || 'brackets',
+      messageStyle,
+      candidates: options.candidates === undefined ? 1 : getCandidateCount(String(options.candidates)),
+      banner: getBannerSetting(options.banner) && !isBannerTrailer(options.bannerTrailer),
+      trailers: await resolveTrailers(options, prefix, context.notes)
+    };
+  }
+
+  async generateMessages(input: GenerationInput, instructions: string[] = []): Promise<string[]> {
+    const messages = await this.generateCandidates(input, instructions);
+    // Apply prefix and banner (if enabled)
+    return messages.map(message => addBannerToMessage(formatCommitMessage(message, input.prefix, input.prefixFormat), input.banner, input.trailers));
+  }
+
+  async generate(options: Omit<GenerateOptions, 'provider' | 'logger'>): Promise<GenerateResult> {
+    const input = await this.prepareGeneration(options);
+    logger.info(`🤖 Generating commit message with AI (${this.provider.name}: ${this.provider.model})...`);
+    const candidates = await this.generateMessages(input, options.instructions);
+    this.printDecorations(input);
+
+    const result = this.describeResult(candidates[0], candidates, input.prefix);
+    generatedStates.set(result, { notes: [...this.usedNotes.values()], cacheKey: this.cacheKey });
+    return result;
+  }
+
+  describeResult(message: string, candidates: string[], prefix: string | null): GenerateResult {
+    const { subject, body, footers } = parseCommitMessage(message);
+    return {
+      message,
+      candidates,
+      subject,
+      body,
+      footers,
+      prefix,
+      provider: this.provider.name,
+      model: this.provider.model,
+      files: this.filesChanged,
+      notes: [...this.usedNotes.values()].map(note => ({ message: note.message, category: note.category || 'general' })),
+      fallbackSummary: this.fallbackSummary,
+      cached: this.usedCache
+    };
+  }
+
+  async clearUsedNotes(commitCount: number = 1): Promise<void> {
+    // Called only after a successful commit, so a failed commit keeps all notes
+    const used = [...this.usedNotes.values()];
+    if (used.length === 0) {
+      return;
+    }
+
+    await recordNotesHistory(used, commitCount);
+    await removeUsedStagedNotes(used);
+    this.usedNotes.clear();
+  }
+
+  async getCommitStyle(base: string, fileSummary: string, messageStyle: MessageStyle): Promise<CommitStyle> {
+    // Every candidate and retry uses the same history, so learn it once
+    const key = `${base}\0${messageStyle}\0${fileSummary}`;
+    const cached = this.commitStyles.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    // name-status lines end with the (new) path
+    const files = fileSummary.split('\n').map(line => line.split('\t').pop() || '').filter(Boolean);
+    const style = await learnCommitStyle(base, files, messageStyle);
+    logger.info(`📚 Learned commit style from history: ${style.examples.length} example${style.examples.length === 1 ? '' : 's'}${style.types.length > 0 ? `, types: ${style.types.join(', ')}` : ''}${style.scopes.length > 0 ? `, scopes: ${style.scopes.join(', ')}` : ''}`);
+
+    this.commitStyles.set(key, style);
+    return style;
+  }
+
+  async generateCommitMessage(diff: string, messageStyle: MessageStyle = 'subject', instructions: string[] = [], context: PromptContext = {}): Promise<string> {
+    const isFullMessage = messageStyle === 'full';
+    const prompt = await this.buildCommitPrompt(diff, messageStyle, instructions, context);
+
+    try {
+      const text = (await this.provider.generate(prompt)).trim();
+
+      if (isFullMessage) {
+        let parts = parseCommitMessage(text);
+        if (parts.subject.length > SUBJECT_MAX_LENGTH) {
+          // Ask once more with the limit spelled out, then shorten whatever comes back
+          logger.info(`   🔁 Subject line is ${parts.subject.length} characters (limit: ${SUBJECT_MAX_LENGTH}), retrying...`);
+          const retryPrompt = await this.buildCommitPrompt(diff, messageStyle, [
+            ...instructions,
+            `Your previous subject line "${parts.subject}" is ${parts.subject.length} characters long. Write the message again with a subject line of at most ${SUBJECT_MAX_LENGTH} characters`
+          ], context);
+          parts = parseCommitMessage((await this.provider.generate(retryPrompt)).trim());
+
+          if (parts.subject.length > SUBJECT_MAX_LENGTH) {
+            const shortened = shortenSubject(parts.subject);
+            logger.warn(`⚠️  Subject line is still ${parts.subject.length} characters, shortened to ${shortened.length}: ${shortened}`);
+            parts = { ...parts, subject: shortened };
+          }
+        }
+        return renderCommitMessage(parts);
+      }
+
+      // Clean up the response to ensure it's just the commit message
+      const lines = text.split('\n');
+      const commitMessage = lines[0].trim();
+
+      // Remove any potential quotes or prefixes
+      return commitMessage.replace(/^["']|["']$/g, '').replace(/^git commit -m\s*/, '');
+    } catch (error) {
+      throw new ModelError(`Failed to generate commit message: ${error instanceof Error ? error.message : error}`, error);
+    }
+  }
+
+  async commitChanges(message: string): Promise<void> {
+    try {
+      await commitWithMessage(message);
+    } catch (error) {
+      throw new GitError(`Failed to commit changes: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async generateLintedMessage(diff: string, messageStyle: MessageStyle, instructions: string[] = [], context: PromptContext = {}): Promise<string> {
+    let message = await this.generateCommitMessage(diff, messageStyle, instructions, context);
+    const ruleSet = loadLintRules();
+    if (!ruleSet) {
+      return message;
+    }
+
+    const maxRetries = getLintMaxRetries();
+
+    for (let attempt = 1; ; attempt++) {
+      const problems = lintCommitMessage(message, ruleSet.rules);
+      const errors = problems.filter(problem => problem.level === 2);
+
+      if (errors.length === 0) {
+        for (const warning of problems) {
+          logger.warn(`   ⚠️  ${warning.message} [${warning.rule}]`);
+        }
+        return message;
+      }
+
+      if (attempt > maxRetries) {
+        logger.info(`\n❌ The message still breaks ${errors.length} commitlint rule${errors.length > 1 ? 's' : ''} (${ruleSet.source}) after ${maxRetries} ${maxRetries === 1 ? 'retry' : 'retries'}:`);
+        for (const error of errors) {
+          logger.info(`   ✖ ${error.message} [${error.rule}]`);
+        }
+        logger.info('   Edit the message before committing, or your commitlint check may reject it.');
+        return message;
+      }
+
+      logger.info(`   🔁 Message breaks commitlint rules (${errors.map(error => error.rule).join(', ')}), retrying ${attempt}/${maxRetries}...`);
+      message = await this.generateCommitMessage(diff, messageStyle, [
+        ...instructions,
+        `Your previous message was rejected by commitlint:\n${message}\nProblems:\n${errors.map(error => `  - ${error.message}`).join('\n')}\nWrite a new message that fixes every problem`
+      ], context);
+    }
+  }
+
+  async generateCandidates(input: GenerationInput, instructions: string[] = []): Promise<string[]> {
+    const { messageStyle, candidates: count, context } = input;
+    const candidates: string[] = [];
+
+    // Only the first generation is cached: regenerating with an instruction asks for something new
+    const cacheKey = instructions.length === 0 ? input.cacheKey : null;
+    if (cacheKey) {
+      this.cacheKey = cacheKey;
+
+      const cached = await getCachedMessages(cacheKey);
+      if (cached) {
+        logger.info(`♻️  Reusing the message generated ${formatAge(cached.createdAt)} for the same changes (--no-cache for a new one)`);
+        candidates.push(...cached.messages.slice(0, count));
+        this.usedCache = true;
+        // No prompt is built for cached messages, but their notes were used all the same
+        (context.notes ?? []).forEach(note => this.usedNotes.set(getNoteKey(note), note));
+      }
+    }
+
+    for (let i = candidates.length; i < count; i++) {
+      if (count > 1) {
+        logger.info(`   ✨ Candidate ${i + 1}/${count}...`);
+      }
+      const candidate = await this.generateLintedMessage(await input.diff(), messageStyle, instructions, context);
+      // Identical candidates are only shown once
+      if (!candidates.includes(candidate)) {
+        candidates.push(candidate);
+      }
+    }
+
+    if (cacheKey) {
+      await storeCachedMessages(cacheKey, candidates);
+    }
+
+    return candidates;
+  }
+
+  async splitStagedChanges(options: CommitMessageOptions): Promise<void> {
+    logger.info('🔍 Checking for staged changes...');
+
+    const { stdout: fullDiff } = await execGit(['diff', '--cached', '--binary', '--no-color', '--no-ext-diff'], { maxBuffer: 1024 * 1024 * 10 });
+    const units = parseDiffUnits(fullDiff);
+
+    if (units.length === 0) {
+      throw new NoStagedChangesError();
+    }
+
+    if (units.length === 1) {
+      logger.info('ℹ️  Only one hunk is staged - nothing to split. Use "genius" to commit it.');
+      return;
+    }
+
+    logger.info(`🧩 Found ${units.length} hunks in ${new Set(units.map(unit => unit.file)).size} files`);
+
+    // Lockfiles and generated files are split like everything else, but only named in the prompt
+    const excludePathspecs = await getDiffExcludePathspecs();
+    const includedFiles = new Set(await getStagedFileNames([':/', ...excludePathspecs]));
+    const maxHunkLength = 2000;
+
+    const listing = units.map(unit => {
+      const body = !includedFiles.has(unit.file) ?
+        '(content not shown: lockfile, generated or ignored file)' :
+        unit.wholeFile ? unit.patch.slice(unit.header.length) : unit.patch;
+      const truncated = body.length > maxHunkLength ? `${body.slice(0, maxHunkLength)}\n... (truncated)` : body;
+      return `diff --git a/${unit.file} b/${unit.file}\n[${unit.id}] ${unit.file}${unit.wholeFile ? '' : ` (hunk ${unit.hunkIndex}/${unit.hunkCount})`}\n${truncated.trimEnd()}\n`;
+    }).join('\n');
+
+    const hunkListing = this.redactDiff(listing, getBlockOnSecrets(options.blockOnSecrets));
+    const messageStyle = getMessageStyle(options.messageStyle);
+    const stagedNotes = await loadStagedNotes();
+    stagedNotes.forEach(note => this.usedNotes.set(getNoteKey(note), note));
+
+    logger.info(`🤖 Grouping hunks into commits with AI (${this.provider.name}: ${this.provider.model})...`);
+
+    const prompt = `
+You are an expert developer. The staged changes below may mix several unrelated pieces of work.
+Group the hunks into logical, self-contained commits and write a commit message for each.
+${stagedNotes.length > 0 ? `
+Developer context notes:
+${formatNotesForPrompt(stagedNotes)}
+` : ''}
+Rules:
+1. Every hunk ID (H1, H2, ...) must appear in exactly one commit
+2. Only split work that is truly unrelated; if everything belongs together, return a single commit
+3. Order the commits so each one builds on the previous (e.g. a refactor before the feature that uses it)
+4. Use conventional commit format for messages: type(scope): description
+5. Types: ${getCommitTypes().join(', ')}
+6. ${messageStyle === 'full' ?
+  `Each message has a subject under ${SUBJECT_MAX_LENGTH} characters, a blank line and a short body explaining WHY (use \\n for newlines)` :
+  'Each message is a single line under 50 characters'}
+7. Return ONLY JSON in this exact shape, nothing else:
+{"commits": [{"message": "type(scope): description", "hunks": ["H1", "H3"]}]}
+
+Hunks:
+${hunkListing}
+
+JSON:`;
+
+    let plan: { message: string; hunks: string[] }[];
+    try {
+      plan = parseSplitResponse(await this.provider.generate(prompt), units);
+    } catch (error) {
+      throw new ModelError(`Failed to plan the split: ${error instanceof Error ? error.message : error}`, error);
+    }
+
+    // Same prefix and banner pipeline as a normal commit
+    const prefix = await getPrefix(options.prefix);
+    const prefixFormat = loadConfig().prefixFormat || 'brackets';
+    const bannerEnabled = getBannerSetting(options.banner) && !isBannerTrailer(options.bannerTrailer);
+    const trailers = await resolveTrailers(options, prefix, stagedNotes);
+    const unitsById = new Map(units.map(unit => [unit.id, unit]));
+
+    const groups: SplitGroup[] = plan.map(commit => {
+      const message = messageStyle === 'full' ?
+        renderCommitMessage(parseCommitMessage(commit.message)) :
+        commit.message.split('\n')[0].trim().replace(/^["']|["']$/g, '');
+      return {
+        message: addBannerToMessage(formatCommitMessage(message, prefix, prefixFormat), bannerEnabled, trailers),
+        units: commit.hunks.map(id => unitsById.get(id)!)
+      };
+    });
+
+    logger.info(`\n✂️  Proposed split into ${groups.length} commit${groups.length > 1 ? 's' : ''}:`);
+    groups.forEach((group, index) => {
+      const [firstLine, ...rest] = indentMessage(group.message).split('\n');
+      logger.info(`\n ${index + 1}.${firstLine.slice(2)}`);
+      if (rest.length > 0) {
+        logger.info(rest.join('\n'));
+      }
+      logger.info(`    📁 ${describeUnits(group.units)}`);
+    });
+
+    if (options.dryRun) {
+      logger.info('\n🔍 Dry run mode - not committing changes');
+      return;
+    }
+
+    if (isReviewEnabled(options.yes)) {
+      logger.info(`\n[Enter] create ${groups.length} commit${groups.length > 1 ? 's' : ''}, [q] abort`);
+      writePrompt('   > ');
+      const answer = (await readUserInput(0))?.trim().toLowerCase();
+      if (answer !== '' && answer !== 'y' && answer !== 'yes') {
+        logger.info('🚫 Aborted - nothing committed, staged changes left as they were');
+        return;
+      }
+    }
+
+    await this.commitSplitGroups(groups);
+
+    await this.clearUsedNotes(groups.length);
+
+    logger.info(`✅ Successfully created ${groups.length} commit${groups.length > 1 ? 's' : ''}!`);
+  }
+
+  async commitSplitGroups(groups: SplitGroup[]): Promise<void> {
+    // Snapshot the index and HEAD so any failure can be rolled back exactly
+    const { stdout: treeOutput } = await execGit(['write-tree']);
+    const originalTree = treeOutput.trim();
+    let originalHead: string | null = null;
+    try {
+      const { stdout } = await execGit(['rev-parse', '--verify', '-q', 'HEAD']);
+      originalHead = stdout.trim();
+    } catch (error) {
+      // Unborn branch: no commits yet
+    }
+
+    try {
+      // Start from the last commit, then stage and commit one group at a time
+      await execGit(originalHead ? ['read-tree', originalHead] : ['read-tree', '--empty']);
+
+      for (let i = 0; i < groups.length; i++) {
+        logger.info(`\n🚀 Committing ${i + 1}/${groups.length}: ${groups[i].message.split('\n')[0]}`);
+        await execGit(['apply', '--cached', '--whitespace=nowarn', '-'], { input: buildPatch(groups[i].units) });
+        await commitWithMessage(groups[i].message);
+      }
+
+      const { stdout: finalTree } = await execGit(['write-tree']);
+      if (finalTree.trim() !== originalTree) {
+        throw new GitError('The split commits do not add up to the staged changes');
+      }
+    } catch (error) {
+      logger.info('\n↩️  Split failed, restoring the original commit and staged changes...');
+      if (originalHead) {
+        await execGit(['update-ref', 'HEAD', originalHead]);
+      } else {
+        await execGit(['update-ref', '-d', 'HEAD']);
+      }
+      await execGit(['read-tree', originalTree]);
+      throw new GitError(`Failed to split commit: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  async getCommitDiffForPrompt(hash: string, fileSummary: string, blockOnSecrets: boolean): Promise<string> {
+    const excludePathspecs = await getDiffExcludePathspecs();
+    const statSummary = async () => {
+      const { stdout: statDiff } = await execGit(['show', '--format=', '--stat', hash]);
+      return `Files changed:
+${fileSummary}
+
+File statistics:
+${statDiff}
+
+Note: This is a large commit. The commit message is generated based on file changes and statistics.`;
+    };
+
+    let rawDiff: string;
+    try {
+      const { stdout } = await execGit(['show', '--format=', '--no-color', '--no-ext-diff', hash, '--', ':/', ...excludePathspecs], { maxBuffer: 1024 * 1024 * 10 });
+      rawDiff = stdout.trim();
+    } catch (bufferError) {
+      return statSummary();
+    }
+
+    const diff = this.redactDiff(rawDiff, blockOnSecrets);
+    if (diff.length > MAX_DIFF_LENGTH) {
+      return await this.summarizeLargeDiff(diff, fileSummary) || statSummary();
+    }
+    return diff;
+  }
+
+  async rewordCommits(options: CommitMessageOptions): Promise<void> {
+    const range = options.reword!;
+    const hashes = await resolveRewordCommits(range);
+
+    if (hashes.length === 0) {
+      logger.info(`ℹ️  No commits in ${range} - nothing to reword`);
+      return;
+    }
+
+    // Only commits in the current branch's history can be rewritten in place
+    const { stdout: headOutput } = await execGit(['rev-parse', 'HEAD']);
+    for (const hash of hashes) {
+      if (!(await isAncestor(hash, headOutput.trim()))) {
+        throw new UsageError(`Commit ${hash.substring(0, 8)} is not in the history of HEAD. Check out the branch that contains it first.`, 'reword');
+      }
+    }
+
+    // Every commit from the oldest one up to HEAD is recreated
+    const oldest = hashes[0];
+    const rewriteRange = (await readCommitMetadata(oldest)).parents.length > 0 ? [`${oldest}^..HEAD`] : ['HEAD'];
+    const { stdout: mergesOutput } = await execGit(['rev-list', '--merges', ...rewriteRange]);
+    if (mergesOutput.trim()) {
+      throw new GitError('The commits to reword (or the ones after them) include merge commits, which reword cannot rewrite. Use "git rebase -i" instead.');
+    }
+
+    const published = await findPublishedCommits(hashes);
+    if (published.hashes.length > 0) {
+      if (!options.force) {
+        throw new UsageError(`${published.hashes.length} of ${hashes.length} commit${hashes.length > 1 ? 's are' : ' is'} already on ${published.where}. Rewording rewrites published history; pass --force if you are sure.`, 'reword');
+      }
+      logger.info(`⚠️  ${published.hashes.length} commit${published.hashes.length > 1 ? 's are' : ' is'} already on ${published.where} - rewriting anyway (--force)`);
+    }
+
+    const { stdout: rewrittenOutput } = await execGit(['rev-list', ...rewriteRange]);
+    await warnAboutSignatures(rewrittenOutput.trim().split('\n').filter(Boolean));
+
+    if (!options.yes && !options.dryRun && !process.stdin.isTTY) {
+      throw new UsageError('Rewording rewrites history and needs confirmation. Run it in a terminal, or pass --yes.', 'reword');
+    }
+
+    logger.info(`🔄 Rewording ${hashes.length} commit${hashes.length > 1 ? 's' : ''}...`);
+    logger.info(`🤖 Generating new commit messages with AI (${this.provider.name}: ${this.provider.model})...`);
+
+    const messageStyle = getMessageStyle(options.messageStyle);
+    const blockOnSecrets = getBlockOnSecrets(options.blockOnSecrets);
+    const prefixFormat = loadConfig().prefixFormat || 'brackets';
+    const bannerEnabled = getBannerSetting(options.banner) && !isBannerTrailer(options.bannerTrailer);
+    let branchPrefix: string | null | undefined;
+
+    const commits: RewordCommit[] = [];
+    for (const [index, hash] of hashes.entries()) {
+      const { message } = await readCommitMetadata(hash);
+      const fileSummary = await getCommitFileSummary(hash);
+      const diff = await this.getCommitDiffForPrompt(hash, fileSummary, blockOnSecrets);
+
+      // Keep each commit's own ticket prefix; otherwise use --prefix or the branch prefix
+      let prefix = options.prefix ? validatePrefix(options.prefix).prefix : extractMessagePrefix(message);
+      if (!prefix) {
+        if (branchPrefix === undefined) {
+          branchPrefix = await getPrefix();
+        }
+        prefix = branchPrefix;
+      }
+
+      const generated = await this.generateLintedMessage(diff, messageStyle, [], {
+        prefix,
+        fileSummary,
+        learnStyle: options.learnStyle,
+        historyBase: `${hash}~1`,
+        useNotes: false
+      });
+      const commit: RewordCommit = {
+        hash,
+        message: message.trim(),
+        // Trailers of the old message (Co-authored-by, Signed-off-by, ...) are kept
+        newMessage: addBannerToMessage(formatCommitMessage(generated, prefix, prefixFormat), bannerEnabled,
+          [...splitTrailerBlock(message).trailers, ...await resolveTrailers(options, prefix)])
+      };
+      commits.push(commit);
+
+      logger.info(`\n ${index + 1}/${hashes.length} ${hash.substring(0, 8)}`);
+      printSideBySide(commit.message, commit.newMessage!, 'Old', 'New');
+    }
+
+    if (options.dryRun) {
+      logger.info('\n🔍 Dry run mode - history left unchanged');
+      return;
+    }
+
+    if (!options.yes) {
+      while (true) {
+        const count = commits.filter(commit => commit.newMessage !== undefined).length;
+        const numbered = commits.length > 1;
+        logger.info(`\n[Enter] reword ${count} commit${count === 1 ? '' : 's'}, [e${numbered ? 'N' : ''}] edit, [k${numbered ? 'N' : ''}] keep the old message, [q] abort`);
+        writePrompt('   > ');
+
+        const answer = (await readUserInput(0))?.trim().toLowerCase();
+        if (answer === '' || answer === 'y' || answer === 'yes') {
+          break;
+        }
+        if (answer === undefined || answer === 'q' || answer === 'quit') {
+          logger.info('🚫 Aborted - history left unchanged');
+          return;
+        }
+
+        const action = answer.match(/^([ek])(\d*)$/);
+        const index = action ? (action[2] ? Number(action[2]) - 1 : 0) : -1;
+        if (!action || index < 0 || index >= commits.length || (numbered && !action[2])) {
+          logger.info(`   ❌ Unknown choice "${answer}"`);
+          continue;
+        }
+
+        const commit = commits[index];
+        if (action[1] === 'k') {
+          commit.newMessage = undefined;
+          logger.info(`   ↩️  ${commit.hash.substring(0, 8)} keeps its old message`);
+        } else {
+          const edited = await editMessageInEditor(commit.newMessage ?? commit.message);
+          // An empty message keeps the old one, like an aborted "git commit"
+          commit.newMessage = edited || undefined;
+          printSideBySide(commit.message, commit.newMessage ?? commit.message, 'Old', 'New');
+        }
+      }
+    }
+
+    const newMessages = new Map<string, string>();
+    for (const commit of commits) {
+      if (commit.newMessage !== undefined && commit.newMessage.trim() !== commit.message) {
+        newMessages.set(commit.hash, commit.newMessage);
+      }
+    }
+
+    if (newMessages.size === 0) {
+      logger.info('ℹ️  No messages changed - history left unchanged');
+      return;
+    }
+
+    logger.info('\n✍️  Rewriting history...');
+    try {
+      await rewriteCommitMessages(newMessages, oldest);
+    } catch (error) {
+      throw new GitError(`Failed to rewrite commits: ${error instanceof Error ? error.message : error}`);
+    }
+
+    logger.info(`✅ Reworded ${newMessages.size} commit${newMessages.size > 1 ? 's' : ''}! Undo with: git reset --soft ORIG_HEAD`);
+  }
+
+  async generatePullRequest(options: CommitMessageOptions): Promise<void> {
+    const base = options.base || await detectBaseBranch();
+    if (!base) {
+      throw new UsageError('Could not detect the base branch. Pass it with --base <branch>.', 'pr');
+    }
+    if (!(await refExists(base))) {
+      throw new GitError(`Base "${base}" does not exist`);
+    }
+
+    let mergeBase: string;
+    try {
+      const { stdout } = await execGit(['merge-base', base, 'HEAD']);
+      mergeBase = stdout.trim();
+    } catch (error) {
+      throw new GitError(`Failed to find where the branch forked from ${base}: ${error instanceof Error ? error.message : error}`);
+    }
+
+    const { stdout: logOutput } = await execGit(['log', '--reverse', '--no-merges', '--format=%H%x1f%B%x1e', `${mergeBase}..HEAD`]);
+    const commits = logOutput.split('\x1e')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [hash, message] = entry.split('\x1f');
+        return { hash, message: message.trim() };
+      });
+
+    if (commits.length === 0) {
+      logger.info(`ℹ️  No commits between ${base} and HEAD - nothing to describe`);
+      return;
+    }
+
+    logger.info(`🔀 Describing ${commits.length} commit${commits.length > 1 ? 's' : ''} since ${base}`);
+
+    // Notes are cleared after each commit, but kept per commit in the notes history
+    const branchCommits = new Set(commits.map(commit => commit.hash));
+    const notes = (await loadNotesHistory())
+      .filter(entry => branchCommits.has(entry.commit))
+      .flatMap(entry => entry.notes);
+    const uniqueNotes = notes.filter((note, index) => notes.findIndex(other => other.message === note.message) === index);
+    if (uniqueNotes.length > 0) {
+      logger.info(`📝 Using ${uniqueNotes.length} note${uniqueNotes.length > 1 ? 's' : ''} from the branch's commits`);
+    }
+
+    const { stdout: fileSummaryOutput } = await execGit(['diff', '--name-status', mergeBase, 'HEAD']);
+    const fileSummary = fileSummaryOutput.trim();
+    const excludePathspecs = await getDiffExcludePathspecs();
+
+    let diff: string;
+    try {
+      const { stdout } = await execGit(['diff', '--no-color', '--no-ext-diff', mergeBase, 'HEAD', '--', ':/', ...excludePathspecs], { maxBuffer: 1024 * 1024 * 10 });
+      diff = this.redactDiff(stdout.trim(), getBlockOnSecrets(options.blockOnSecrets));
+    } catch (error) {
+      if (error instanceof Error && error.message.includes('maxBuffer')) {
+        diff = '';
+      } else {
+        throw error;
+      }
+    }
+
+    if (!diff || diff.length > MAX_DIFF_LENGTH) {
+      const summaries = diff ? await this.summarizeLargeDiff(diff, fileSummary) : null;
+      if (summaries) {
+        diff = summaries;
+      } else {
+        const { stdout: statDiff } = await execGit(['diff', '--stat', mergeBase, 'HEAD']);
+        diff = `Files changed:\n${fileSummary}\n\nFile statistics:\n${statDiff}`;
+      }
+    }
+
+    const cleanMessages = commits.map(commit => cleanHistoryMessage(commit.message));
+
+    logger.info(`🤖 Writing the pull request with AI (${this.provider.name}: ${this.provider.model})...`);
+
+    const prompt = `
+You are an expert developer writing a pull request description for reviewers.
+
+Branch: ${await getCurrentBranch() || 'HEAD'} (into ${base})
+
+Commits on this branch, oldest first:
+${cleanMessages.map(message => `---\n${message}`).join('\n')}
+---
+${uniqueNotes.length > 0 ? `
+Developer notes recorded while committing (use them to explain WHY):
+${formatNotesForPrompt(uniqueNotes)}
+` : ''}
+Changed files:
+${fileSummary}
+
+Rules:
+1. The title is one line under 72 characters in conventional commit format: type(scope): description
+2. The summary is 1-3 sentences on what the pull request does and why
+3. Changes are short bullet points grouped by purpose, not one per file
+4. Testing lists how the change was or can be verified (tests added, manual steps); don't invent results
+5. Return ONLY JSON in this exact shape, nothing else:
+{"title": "...", "summary": "...", "changes": ["..."], "testing": ["..."]}
+
+${diff.startsWith(CHUNK_SUMMARY_HEADER) || diff.startsWith('Files changed:') ? 'Summary of the changes:' : 'Diff:'}
+${diff}
+
+JSON:`;
+
+    let draft: PullRequestDraft;
+    try {
+      const raw = parseJsonResponse(await this.provider.generate(prompt), 'pull request') as Partial<Record<keyof PullRequestDraft, unknown>>;
+      const strings = (value: unknown) => Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+      draft = {
+        title: typeof raw.title === 'string' ? raw.title.split('\n')[0].trim() : '',
+        summary: typeof raw.summary === 'string' ? raw.summary : '',
+        changes: strings(raw.changes),
+        testing: strings(raw.testing)
+      };
+      if (!draft.title) {
+        throw new Error('The model returned no title');
+      }
+    } catch (error) {
+      throw new ModelError(`Failed to generate pull request: ${error instanceof Error ? error.message : error}`, error);
+    }
+
+    // Same prefix handling as commits: --prefix, then the branch name
+    const prefix = await getPrefix(options.prefix);
+    const title = formatCommitMessage(draft.title, prefix, loadConfig().prefixFormat || 'brackets');
+    const tickets = findTicketReferences([...(prefix ? [`[${prefix}] `] : []), ...commits.map(commit => commit.message)]);
+    const pullRequest = `${title}\n\n${renderPullRequestBody(draft, tickets)}`;
+
+    if (options.output) {
+      try {
+        fs.writeFileSync(options.output, pullRequest);
+      } catch (error) {
+        throw new Error(`Failed to write pull request file: ${error instanceof Error ? error.message : error}`);
+      }
+      logger.info(`✅ Wrote pull request to ${options.output} (title on the first line)`);
+      return;
+    }
+
+    logger.info('\n📋 Pull request:\n');
+    printOutput(pullRequest);
+  }
+
+  async generateChangelog(options: CommitMessageOptions): Promise<void> {
+    const to = options.to || 'HEAD';
+    if (!(await refExists(to))) {
+      throw new GitError(`"${to}" does not exist`);
+    }
+
+    // Default range: everything since the latest tag before "to"
+    let from = options.from;
+    if (!from) {
+      try {
+        const { stdout } = await execGit(['describe', '--tags', '--abbrev=0', `${to}^`]);
+        from = stdout.trim();
+      } catch (error) {
+        // No earlier tag: the whole history
+      }
+    }
+    if (from && !(await refExists(from))) {
+      throw new GitError(`"${from}" does not exist`);
+    }
+
+    const range = from ? `${from}..${to}` : to;
+    const { stdout: logOutput } = await execGit(['log', '--no-merges', '--format=%H%x1f%B%x1e', range], { maxBuffer: 1024 * 1024 * 10 });
+    const entries = logOutput.split('\x1e')
+      .map(entry => entry.trim())
+      .filter(Boolean)
+      .map(entry => {
+        const [hash, message] = entry.split('\x1f');
+        return parseChangelogEntry(hash, message);
+      });
+
+    if (entries.length === 0) {
+      logger.info(`ℹ️  No commits in ${range} - nothing to add to the changelog`);
+      return;
+    }
+
+    logger.info(`📜 Building changelog for ${entries.length} commit${entries.length > 1 ? 's' : ''} (${from ? range : `up to ${to}`})`);
+
+    // Heading: the tag at "to" if there is one, otherwise "Unreleased"
+    let version = 'Unreleased';
+    try {
+      const { stdout } = await execGit(['describe', '--tags', '--exact-match', to]);
+      version = stdout.trim();
+    } catch (error) {
+      // "to" is not tagged
+    }
+    const { stdout: dateOutput } = await execGit(['log', '-1', '--format=%cs', to]);
+    const heading = `${version} (${dateOutput.trim()})`;
+
+    let highlights: string | undefined;
+    if (options.highlights) {
+      logger.info(`🤖 Writing highlights with AI (${this.provider.name}: ${this.provider.model})...`);
+      const prompt = `
+You are writing release notes for users of this project.
+
+Write ONE short paragraph (2-4 sentences) highlighting the most important changes in this release, in plain language.
+Mention breaking changes first if there are any. Don't list every change, don't use headings or bullet points, and return ONLY the paragraph.
+
+Changes in this release:
+${renderChangelog(entries, heading)}
+
+Highlights:`;
+      try {
+        highlights = (await this.provider.generate(prompt)).trim();
+      } catch (error) {
+        throw new ModelError(`Failed to generate highlights: ${error instanceof Error ? error.message : error}`, error);
+      }
+    }
+
+    const changelog = renderChangelog(entries, heading, highlights);
+
+    if (options.output) {
+      try {
+        prependToChangelog(options.output, changelog);
+      } catch (error) {
+        throw new Error(`Failed to update ${options.output}: ${error instanceof Error ? error.message : error}`);
+      }
+      logger.info(`✅ Added ${version} to ${options.output}`);
+      return;
+    }
+
+    logger.info('');
+    printOutput(changelog);
+  }
+
+  async showPrompt(options: CommitMessageOptions): Promise<void> {
+    logger.info('🔍 Checking for staged changes...');
+
+    const diff = await this.checkStagedChanges({ blockOnSecrets: getBlockOnSecrets(options.blockOnSecrets), summarize: false });
+    if (!diff) {
+      throw new NoStagedChangesError();
+    }
+
+    const prefix = await getPrefix(options.prefix);
+    const prompt = await this.buildCommitPrompt(diff, getMessageStyle(options.messageStyle), [], { prefix, learnStyle: options.learnStyle });
+
+    logger.info(`\n=== Prompt (template: ${loadPromptTemplate().source}) ===`);
+    printOutput(prompt);
+    logger.info('=== End of prompt ===');
+  }
+
+  printDecorations(input: GenerationInput): void {
+    if (input.prefix) {
+      logger.info(`🏷️  Applied prefix: ${input.prefix} (format: ${input.prefixFormat})`);
+    }
+
+    if (input.banner) {
+      logger.info('🏷️  Banner will be added to commit message');
+    }
+  }
+}
+
+// Library API: the CLI's commit flows are these plus the review step
+
+// Calls share the module logger and config caches, so they run one at a time, in order
+let libraryQueue: Promise<unknown> = Promise.resolve();
+
+function runExclusive<T>(fn: () => Promise<T>): Promise<T> {
+  const result = libraryQueue.then(fn, fn);
+  libraryQueue = result.catch(() => undefined);
+  return result;
+}
+
+async function generate(options: GenerateOptions): Promise<GenerateResult> {
+  // Silent unless the caller passes a logger
+  const { provider, logger: customLogger = silentLogger, useConfig = true, ...generateOptions } = options;
+  return runExclusive(async () => {
+    configDisabled = !useConfig;
+    try {
+      return await withLogger(customLogger, () => {
+        // Reads the config of the repository this call runs in (again, if it changed since the last call)
+        loadConfigLayers();
+        return new AICommitGenerator(provider).generate(generateOptions);
+      });
+    } finally {
+      if (configDisabled) {
+        configDisabled = false;
+        resetConfigCaches();
+      }
+    }
+  });
+}
+
+async function commit(message: string, options: CommitOptions = {}): Promise<string> {
+  const { generated, logger: customLogger = silentLogger } = options;
+  return runExclusive(() => withLogger(customLogger, async () => {
+    try {
+      await commitWithMessage(message);
+    } catch (error) {
+      throw new GitError(`Failed to commit changes: ${error instanceof Error ? error.message : error}`);
+    }
+    const hash = await getHeadHash();
+    await clearGeneratedState(getGeneratedState(generated));
+    return hash;
+  }));
+}
+
+async function amend(message: string, options: CommitOptions = {}): Promise<string> {
+  const { generated, logger: customLogger = silentLogger } = options;
+  return runExclusive(() => withLogger(customLogger, async () => {
+    await amendCommitMessage(message);
+    const hash = await getHeadHash();
+    await clearGeneratedState(getGeneratedState(generated));
+    return hash;
+  }));
+}
+
+function getGeneratedState(generated?: GenerateResult): GeneratedState {
+  return (generated && generatedStates.get(generated)) || { notes: [], cacheKey: null };
+}
 
-File statistics:
-${statDiff}
+// Commit flows of the command line: generate(), the review step, then commit() or amend()
+
+async function runCommitFlow(provider: LLMProvider, options: CommitMessageOptions, cliLogger: Logger): Promise<void> {
+  const amending = options.regenerate === true;
+  const review = !options.messageFile && isReviewEnabled(options.yes);
+  const generateOptions: GenerateOptions = {
+    provider,
+    logger: cliLogger,
+    diff: amending ? 'last-commit' : 'staged',
+    candidates: review || options.dryRun ? getCandidateCount(options.candidates) : 1,
+    prefix: options.prefix,
+    messageStyle: options.messageStyle as MessageStyle | undefined,
+    learnStyle: options.learnStyle,
+    blockOnSecrets: options.blockOnSecrets,
+    cache: options.cache,
+    banner: options.banner,
+    bannerTrailer: options.bannerTrailer,
+    refs: options.refs,
+    pair: options.pair,
+    signOff: options.signOff
+  };
 
-Note: This is a very large commit. The commit message is generated based on file changes and statistics.`;
+  if (amending) {
+    logger.info('🔄 Regenerating last commit message...');
+    const lastCommit = await getLastCommitInfo();
+    logger.info(`📋 Current commit message: "${lastCommit.message}"`);
+    logger.info(`🔍 Commit hash: ${lastCommit.hash}`);
+  } else {
+    logger.info('🔍 Checking for staged changes...');
+    // Interactive notes are part of the context, so ask before reading them
+    if (options.interactive) {
+      if (!await hasStagedChanges()) {
+        throw new NoStagedChangesError();
       }
-
-    } catch (error) {
-      throw new Error(`Failed to get git diff: ${error instanceof Error ? error.message : error}. Make sure you are in a git repository.`);
+      await promptForContext();
     }
   }
 
-  async generateCommitMessage(diff: string): Promise<string> {
-    const isFileSummary = diff.includes('Files changed:') || diff.includes('Note: This is a');
-    const stagedNotes = await loadStagedNotes();
-
-    let contextSection = '';
-    if (stagedNotes.length > 0) {
-      contextSection = `
+  const generated = await generate(generateOptions);
+  printCandidates(generated.candidates, amending ? 'New commit message' : 'Generated commit message');
 
-=== IMPORTANT: DEVELOPER CONTEXT NOTES ===
-${stagedNotes.map(note => `• ${note.message}`).join('\n')}
+  if (options.messageFile) {
+    await writeMessageFile(options.messageFile, generated.message);
+    // git commits after the hook returns (or not, if the message is emptied), so the
+    // post-commit hook clears the used notes and the cache entry instead of this run
+    const { stdout: tree } = await execGit(['write-tree']);
+    await savePendingHookCommit({ tree: tree.trim(), ...getGeneratedState(generated) });
+    return;
+  }
 
-INSTRUCTIONS: Use this context to write a meaningful commit message that explains WHY the change was made.
-Include specific details from the notes such as:
-- Browser/environment issues (e.g., "Chrome bug", "production crash")
-- Issue references (e.g., "Resolves #456", "upstream bug #123")
-- Business reasoning (e.g., "for enterprise customers", "critical for Q4 launch")
-- Technical context (e.g., "until upstream fix", "temporary workaround")
-=== END CONTEXT ===
-`;
-    }
+  if (options.dryRun) {
+    logger.info(`\n🔍 Dry run mode - not ${amending ? 'amending commit' : 'committing changes'}`);
+    await reportCommitResult(generated, generated.message, { committed: false, amended: false, aborted: false });
+    return;
+  }
 
-    const prompt = `
-You are an expert developer who writes clear, concise commit messages following conventional commit format.
+  // Regenerating with an instruction is another generate() call; the latest result describes the messages shown
+  let latest = generated;
+  const regenerate = async (instructions: string[]) => {
+    latest = await generate({ ...generateOptions, instructions });
+    return latest.candidates;
+  };
+  const message = review ? await reviewCandidates(generated.candidates, regenerate) : generated.message;
+  if (message === null) {
+    logger.info(`🚫 Aborted - ${amending ? 'last commit left unchanged' : 'nothing committed'}`);
+    await reportCommitResult(latest, latest.message, { committed: false, amended: false, aborted: true });
+    return;
+  }
 
-${isFileSummary ?
-  'Analyze the following file changes and statistics to generate a single, well-formatted commit message.' :
-  'Analyze the following git diff and generate a single, well-formatted commit message.'
-}${contextSection}
+  logger.info(amending ? '\n🔄 Amending last commit...' : '\n🚀 Committing changes...');
+  // The first result has the notes and the cache entry; regenerating uses the same notes and isn't cached
+  const commitOptions: CommitOptions = { generated, logger: cliLogger };
+  const hash = amending ? await amend(message, commitOptions) : await commit(message, commitOptions);
+  await reportCommitResult(latest, message, { committed: !amending, amended: amending, aborted: false }, hash);
 
-Rules:
-1. Use conventional commit format: type(scope): description
-2. Types: feat, fix, docs, style, refactor, test, chore, perf, ci, build
-3. ${stagedNotes.length > 0 ? 'When developer notes are provided, prioritize explaining WHY over brevity - include key context like browser issues, upstream bugs, or business reasoning' : 'Keep the description under 50 characters for the first line'}
-4. Be specific about what changed based on ${isFileSummary ? 'file names and change types' : 'the actual code changes'}
-5. Use present tense ("add" not "added")
-6. Don't include "git commit -m" or quotes
-7. Return ONLY the commit message, nothing else
-8. ${isFileSummary ? 'Focus on the overall purpose based on file patterns (e.g., "docs: add README files", "feat: add new components")' : 'Focus on the specific code changes'}
-${stagedNotes.length > 0 ? '9. IMPORTANT: Incorporate context from developer notes to explain the reasoning behind the change - include issue references, browser/environment details, and business context' : ''}
+  logger.info(amending ? '✅ Successfully amended last commit message!' : '✅ Successfully committed changes!');
+}
 
-${isFileSummary ? 'File changes and statistics:' : 'Git diff:'}
-${diff}
+async function reportCommitResult(generated: GenerateResult, message: string, outcome: Pick<CommitResult, 'committed' | 'amended' | 'aborted'>, hash: string | null = null): Promise<void> {
+  if (outputMode === 'text') {
+    return;
+  }
 
-Commit message:`;
+  if (outputMode === 'quiet') {
+    // Nothing to print when the review was aborted
+    if (!outcome.aborted) {
+      printOutput(message);
+    }
+    return;
+  }
 
-    try {
-      // Debug: log the full prompt if debug mode is enabled
-      if (process.env.DEBUG_PROMPT === 'true') {
-        console.log('\n=== DEBUG: Full AI Prompt ===');
-        console.log(prompt);
-        console.log('=== END DEBUG ===\n');
-      }
+  const { candidates, ...result } = generated;
+  const commitResult: CommitResult = { ...result, message, ...parseCommitMessage(message), ...outcome, hash };
+  printOutput(JSON.stringify(commitResult, null, 2));
+}
 
-      const result = await this.model.generateContent(prompt);
-      const response = await result.response;
-      const text = response.text().trim();
+async function reviewCandidates(candidates: string[], regenerate: (instructions: string[]) => Promise<string[]>): Promise<string | null> {
+  const instructions: string[] = [];
+  let current = candidates;
 
-      // Clean up the response to ensure it's just the commit message
-      const lines = text.split('\n');
-      const commitMessage = lines[0].trim();
+  while (true) {
+    const numbered = current.length > 1;
+    logger.info(`\n${numbered ? `[1-${current.length}] accept` : '[Enter] accept'}, [e${numbered ? 'N' : ''}] edit in editor, [r] regenerate with an instruction, [q] abort`);
+    writePrompt('   > ');
 
-      // Remove any potential quotes or prefixes
-      return commitMessage.replace(/^["']|["']$/g, '').replace(/^git commit -m\s*/, '');
-    } catch (error) {
-      throw new Error(`Failed to generate commit message: ${error}`);
+    const input = await readUserInput(0);
+    if (input === null) {
+      return null;
     }
-  }
+    const answer = input.trim().toLowerCase();
 
-  async commitChanges(message: string): Promise<void> {
-    try {
-      await execAsync(`git commit -m "${message}"`);
-    } catch (error) {
-      throw new Error(`Failed to commit changes: ${error}`);
+    if (answer === '' || answer === 'y' || answer === 'yes') {
+      return current[0];
     }
-  }
 
-  async run(options: CommitMessageOptions = {}): Promise<void> {
-    try {
-      // Handle note operations first
-      if (options.note) {
-        await addStagedNote(options.note);
-        return;
+    if (/^\d+$/.test(answer)) {
+      const index = Number(answer) - 1;
+      if (index >= 0 && index < current.length) {
+        return current[index];
       }
+      logger.info(`   ❌ Choose a number between 1 and ${current.length}`);
+      continue;
+    }
 
-      if (options.listNotes) {
-        await listStagedNotes();
-        return;
+    if (/^e\d*$/.test(answer)) {
+      const index = answer.length > 1 ? Number(answer.slice(1)) - 1 : 0;
+      if (index < 0 || index >= current.length) {
+        logger.info(`   ❌ Choose a number between 1 and ${current.length}`);
+        continue;
       }
-
-      if (options.clearNotes) {
-        await clearStagedNotes();
-        return;
+      const edited = await editMessageInEditor(current[index]);
+      if (edited) {
+        current = [edited];
+      } else {
+        logger.info('   ⏭️  Empty message, keeping the previous one.');
       }
+      printCandidates(current, 'Edited commit message');
+      continue;
+    }
 
-      // Handle regenerate last commit message
-      if (options.regenerate) {
-        console.log('🔄 Regenerating last commit message...');
+    if (answer === 'r') {
+      writePrompt('💬 Extra instruction (optional, e.g. "mention the migration"): ');
+      const input = await readUserInput(0);
+      if (input === null) {
+        return null;
+      }
+      const instruction = input.trim();
+      if (instruction) {
+        instructions.push(instruction);
+      }
+      current = await regenerate(instructions);
+      printCandidates(current, 'Generated commit message');
+      continue;
+    }
 
-        const lastCommit = await getLastCommitInfo();
-        console.log(`📋 Current commit message: "${lastCommit.message}"`);
-        console.log(`🔍 Commit hash: ${lastCommit.hash}`);
+    if (answer === 'q' || answer === 'n' || answer === 'no') {
+      return null;
+    }
 
-        // Show staged notes if any exist
-        const stagedNotes = await loadStagedNotes();
-        if (stagedNotes.length > 0) {
-          console.log(`📝 Using ${stagedNotes.length} staged note${stagedNotes.length > 1 ? 's' : ''} for context`);
-        }
+    logger.info('   ❌ Unknown choice');
+  }
+}
 
-        console.log('🤖 Generating new commit message with AI...');
+async function writeMessageFile(messageFile: string, message: string): Promise<void> {
+  try {
+    // Keep git's comment lines below the generated message
+    const existing = fs.existsSync(messageFile) ? fs.readFileSync(messageFile, 'utf8') : '';
+    fs.writeFileSync(messageFile, `${message}\n${existing ? `\n${existing}` : ''}`);
+    logger.info(`\n📝 Wrote commit message to ${messageFile}`);
+  } catch (error) {
+    throw new GitError(`Failed to write commit message file: ${error instanceof Error ? error.message : error}`);
+  }
+}
 
-        let newCommitMessage = await this.generateCommitMessage(lastCommit.diff);
+// Command line: commands and options are declared once, and parsing, --help and
+// the shell completions are all generated from these tables
+
+interface CliOption {
+  name: string;
+  short?: string;
+  // Placeholder shown in help; options without one are flags
+  value?: string;
+  // Values offered by the shell completions
+  choices?: readonly string[];
+  // Complete the value with file names
+  file?: boolean;
+  // Still accepted, but left out of help and completions
+  hidden?: boolean;
+  description: string;
+}
 
-        // Get prefix and apply it to the commit message
-        const prefix = await getPrefix(options.prefix);
-        const config = loadGlobalConfig();
-        const prefixFormat = config.prefixFormat || 'brackets';
+interface CliArguments {
+  usage?: string;
+  // Number of arguments allowed, 0 when not set
+  min?: number;
+  max?: number;
+}
 
-        let finalMessage = formatCommitMessage(newCommitMessage, prefix, prefixFormat);
+interface CliAction extends CliArguments {
+  description: string;
+  hidden?: boolean;
+}
 
-        // Apply banner if enabled
-        const bannerEnabled = getBannerSetting(options.banner);
-        finalMessage = addBannerToMessage(finalMessage, bannerEnabled);
+interface CliCommand extends CliArguments {
+  // Empty for plain "genius"
+  name: string;
+  description: string;
+  options: string[];
+  // The first argument picks the action: genius notes add, genius hook install, ...
+  actions?: Record<string, CliAction>;
+  defaultAction?: string;
+}
 
-        console.log('\n📝 New commit message:');
-        console.log(`   ${finalMessage}`);
+interface CommandLine {
+  command: CliCommand;
+  action?: string;
+  args: string[];
+  help: boolean;
+  values: Map<string, string[]>;
+}
 
-        if (prefix) {
-          console.log(`🏷️  Applied prefix: ${prefix} (format: ${prefixFormat})`);
-        }
+const CLI_OPTIONS: CliOption[] = [
+  { name: 'dry-run', short: 'd', description: 'Generate the message without committing' },
+  { name: 'yes', short: 'y', description: 'Skip the review step (for scripts)' },
+  { name: 'print', description: 'Print only the generated message to stdout, without committing' },
+  { name: 'quiet', short: 'q', description: 'Print only the result to stdout; status lines go to stderr' },
+  { name: 'json', description: 'Print one JSON object with the message, model, files, notes and hash' },
+  { name: 'candidates', short: 'c', value: '<n>', description: 'Number of messages to generate and choose from (default: 1)' },
+  { name: 'provider', short: 'P', value: '<name>', choices: SUPPORTED_PROVIDERS, description: 'LLM provider: gemini, openai, ollama, replay, stub (default: gemini)' },
+  { name: 'model', short: 'm', value: '<model>', description: 'Model to use (default: gemini-2.5-flash-lite)' },
+  { name: 'prefix', short: 'p', value: '<prefix>', description: 'Prepend a ticket prefix (e.g., JR-1234, or "JR-1,JR-2")' },
+  { name: 'full', description: 'Generate a full message: subject, body and footers' },
+  { name: 'message-style', value: '<style>', choices: ['subject', 'full'], description: 'Message style: subject, full (default: subject)' },
+  { name: 'interactive', short: 'i', description: 'Prompt for context before generating' },
+  { name: 'no-cache', description: 'Always call the model, even if these changes were generated before' },
+  { name: 'record', description: 'Save each model response as a fixture for the replay provider' },
+  { name: 'fixtures', value: '<dir>', file: true, description: 'Fixture directory for --record and replay (default: .commit-genius/fixtures)' },
+  { name: 'block-on-secrets', description: 'Abort instead of redacting when the diff contains secrets' },
+  { name: 'learn-style', description: 'Show the model recent commits and the repo\'s types/scopes as style examples' },
+  { name: 'no-learn-style', description: 'Don\'t learn the style from history, even if enabled in config' },
+  { name: 'banner', description: 'Add the banner to the message (default: enabled)' },
+  { name: 'no-banner', description: 'Leave the banner out of the message' },
+  { name: 'banner-trailer', description: 'Add the banner as a trailer (Generated-by: commit-genius) instead' },
+  { name: 'refs', description: 'Add a Refs: trailer for each ticket' },
+  { name: 'closes', description: 'Add a Closes: trailer for each ticket' },
+  { name: 'no-refs', description: 'Add no ticket trailers, even if enabled in config' },
+  { name: 'pair', value: '<aliases>', description: 'Add Co-authored-by: trailers for aliases from trailers.coAuthors (repeatable)' },
+  { name: 'signoff', short: 's', description: 'Add a Signed-off-by: trailer with your git identity' },
+  { name: 'force', description: 'Also rewrite commits that are already pushed upstream' },
+  { name: 'base', short: 'b', value: '<branch>', description: 'Base branch (default: upstream, origin/HEAD or init.defaultBranch)' },
+  { name: 'output', short: 'o', value: '<file>', file: true, description: 'Write the result to a file (a changelog is prepended to it)' },
+  { name: 'from', value: '<ref>', description: 'Start of the range (default: the last tag)' },
+  { name: 'to', value: '<ref>', description: 'End of the range (default: HEAD)' },
+  { name: 'highlights', description: 'Add an AI-written highlights paragraph' },
+  { name: 'type', short: 't', value: '<type>', choices: NOTE_CATEGORIES.map(entry => entry.category), description: `Note type: ${NOTE_CATEGORIES.map(entry => entry.category).join(', ')} (default: general)` },
+  { name: 'note', short: 'n', value: '<message>', description: 'Add a staged note (same as genius notes add)' },
+  { name: 'list-notes', description: 'Show all staged notes (same as genius notes list)' },
+  { name: 'clear-notes', description: 'Clear all staged notes (same as genius notes clear)' },
+  { name: 'regenerate', short: 'r', description: 'Regenerate and amend the last commit message (same as genius regenerate)' },
+  { name: 'init', description: 'Show how to create the global config file (~/.commit-genius.json)' },
+  { name: 'show', hidden: true, description: 'Print the prompt' },
+  { name: 'explain', hidden: true, description: 'Explain the prefix' },
+  { name: 'show-effective', hidden: true, description: 'Print the resolved settings' },
+  { name: 'help', short: 'h', description: 'Show this help message' }
+];
+
+const MESSAGE_OPTIONS = ['provider', 'model', 'prefix', 'full', 'message-style', 'no-cache', 'record', 'fixtures', 'block-on-secrets',
+  'learn-style', 'no-learn-style', 'banner', 'no-banner', 'banner-trailer'];
+const TRAILER_OPTIONS = ['refs', 'closes', 'no-refs', 'pair', 'signoff'];
+const COMMIT_OPTIONS = ['dry-run', 'yes', 'print', 'quiet', 'json', 'candidates', ...MESSAGE_OPTIONS, ...TRAILER_OPTIONS];
+
+const CLI_COMMANDS: CliCommand[] = [
+  {
+    name: '',
+    usage: '[command] [options]',
+    description: 'Generate a commit message for the staged changes and commit (same as genius commit)',
+    options: [...COMMIT_OPTIONS, 'interactive', 'note', 'type', 'list-notes', 'clear-notes', 'regenerate', 'init']
+  },
+  {
+    name: 'commit',
+    description: 'Generate a commit message for the staged changes and commit',
+    options: [...COMMIT_OPTIONS, 'interactive']
+  },
+  {
+    name: 'regenerate',
+    description: 'Regenerate and amend the last commit message',
+    options: COMMIT_OPTIONS
+  },
+  {
+    name: 'notes',
+    description: 'Manage the staged notes that give the model context for the next commit',
+    options: ['type'],
+    defaultAction: 'list',
+    actions: {
+      add: { usage: '<message>', min: 1, max: Infinity, description: 'Add a note' },
+      list: { description: 'Show all notes (default)' },
+      edit: { usage: '<n> [message]', min: 1, max: Infinity, description: 'Replace note n, or edit it in your editor' },
+      rm: { usage: '<n>', min: 1, max: 1, description: 'Remove note n' },
+      clear: { description: 'Remove all notes' }
+    }
+  },
+  {
+    name: 'split',
+    description: 'Split mixed staged changes into several commits',
+    options: ['dry-run', 'yes', ...MESSAGE_OPTIONS]
+  },
+  {
+    name: 'reword',
+    usage: '<rev> | <base>..<head>',
+    min: 1,
+    max: 1,
+    description: 'Regenerate the messages of existing commits and rewrite them in place',
+    options: ['dry-run', 'yes', 'force', ...MESSAGE_OPTIONS]
+  },
+  {
+    name: 'pr',
+    description: 'Write a pull request title and description for the current branch',
+    options: ['base', 'output', 'quiet', 'provider', 'model', 'prefix', 'record', 'fixtures', 'block-on-secrets']
+  },
+  {
+    name: 'changelog',
+    description: 'Write a Markdown changelog grouped by type and scope',
+    options: ['from', 'to', 'output', 'highlights', 'quiet', 'provider', 'model', 'record', 'fixtures']
+  },
+  {
+    name: 'prompt',
+    description: 'Print the prompt for the staged changes without calling the model',
+    options: ['show', 'quiet', 'prefix', 'full', 'message-style', 'block-on-secrets', 'learn-style', 'no-learn-style']
+  },
+  {
+    name: 'prefix',
+    description: 'Show which ticket pattern produced the prefix, and why',
+    options: ['explain', 'prefix']
+  },
+  {
+    name: 'config',
+    description: 'Print every resolved setting and where its value came from',
+    options: ['show-effective']
+  },
+  {
+    name: 'cache',
+    description: 'Manage the messages cached for dry runs and earlier attempts',
+    options: [],
+    actions: {
+      clear: { description: 'Forget the cached messages (they also expire after cache.maxAgeHours)' }
+    }
+  },
+  {
+    name: 'hook',
+    description: 'Manage the prepare-commit-msg and post-commit hooks for plain "git commit"',
+    options: [],
+    actions: {
+      install: { description: 'Install the hook in this repository' },
+      uninstall: { description: 'Remove the hook' },
+      status: { description: 'Show whether the hook is installed' },
+      // Called by the hook itself: genius hook run <file> [source]
+      run: { usage: '<file> [source]', max: 2, hidden: true, description: 'Write a message to the commit message file' },
+      // Called by the post-commit hook
+      'post-commit': { hidden: true, description: 'Clear the staged notes the committed message used' }
+    }
+  },
+  {
+    name: 'completion',
+    description: 'Print the shell completion script (e.g. source <(genius completion bash))',
+    options: [],
+    actions: {
+      bash: { description: 'Completion for bash' },
+      zsh: { description: 'Completion for zsh' },
+      fish: { description: 'Completion for fish' }
+    }
+  }
+];
 
-        if (bannerEnabled) {
-          console.log('🏷️  Banner will be added to commit message');
-        }
+function getCliOption(name: string): CliOption {
+  const option = CLI_OPTIONS.find(entry => entry.name === name);
+  if (!option) {
+    throw new Error(`Unknown CLI option in command table: ${name}`);
+  }
+  return option;
+}
 
-        if (options.dryRun) {
-          console.log('\n🔍 Dry run mode - not amending commit');
-          return;
-        }
+function getCommandOptions(command: CliCommand): CliOption[] {
+  return [...command.options, 'help'].map(getCliOption);
+}
 
-        console.log('\n🔄 Amending last commit...');
-        await amendCommitMessage(finalMessage);
+function getCommandTitle(command: CliCommand, action?: string): string {
+  return ['genius', command.name, action].filter(Boolean).join(' ');
+}
 
-        // Clear staged notes after successful amendment
-        if (stagedNotes.length > 0) {
-          await clearStagedNotes();
-          console.log('🗑️  Cleared staged notes after successful amendment');
-        }
+function parseCommandLine(argv: string[]): CommandLine {
+  const named = CLI_COMMANDS.find(command => command.name && command.name === argv[0]);
+  const command = named ?? CLI_COMMANDS[0];
+  const tokens = named ? argv.slice(1) : argv;
+  const options = getCommandOptions(command);
+  const title = getCommandTitle(command);
+  const values = new Map<string, string[]>();
+  const args: string[] = [];
+
+  const unknown = (flag: string) => new UsageError(`Unknown option "${flag}" for ${title}`, command.name);
+
+  for (let index = 0; index < tokens.length; index++) {
+    const token = tokens[index];
+    if (token === '--') {
+      args.push(...tokens.slice(index + 1));
+      break;
+    }
+    if (!token.startsWith('-') || token === '-') {
+      args.push(token);
+      continue;
+    }
 
-        console.log('✅ Successfully amended last commit message!');
-        return;
+    // A value never starts with "-", so "--note --dry-run" is an error rather than a note
+    // called "--dry-run". "--note=-x" passes such a value explicitly
+    const takeValue = (option: CliOption, inline: string | undefined): string => {
+      if (inline !== undefined) {
+        return inline;
       }
+      const next = tokens[index + 1];
+      if (next === undefined || (next.startsWith('-') && next !== '-')) {
+        throw new UsageError(`Option --${option.name} needs a value: --${option.name} ${option.value}`, command.name);
+      }
+      index++;
+      return next;
+    };
 
-      console.log('🔍 Checking for staged changes...');
-
-      const diff = await this.checkStagedChanges();
+    const set = (option: CliOption, value: string) => {
+      values.set(option.name, [...(values.get(option.name) ?? []), value]);
+    };
 
-      if (!diff) {
-        console.log('❌ No staged changes found. Please stage your changes first with:');
-        console.log('   git add <files>');
-        process.exit(1);
+    if (token.startsWith('--')) {
+      const separator = token.indexOf('=');
+      const name = separator === -1 ? token.slice(2) : token.slice(2, separator);
+      const inline = separator === -1 ? undefined : token.slice(separator + 1);
+      const option = options.find(entry => entry.name === name);
+      if (!option) {
+        throw unknown(`--${name}`);
       }
+      if (!option.value && inline !== undefined) {
+        throw new UsageError(`Option --${name} doesn't take a value`, command.name);
+      }
+      set(option, option.value ? takeValue(option, inline) : '');
+      continue;
+    }
 
-      // Handle interactive mode
-      if (options.interactive) {
-        await promptForContext();
+    // Short flags can be grouped (-dy); a short option with a value takes the rest of the
+    // group or the next argument (-c3, -c 3)
+    for (let position = 1; position < token.length; position++) {
+      const option = options.find(entry => entry.short === token[position]);
+      if (!option) {
+        throw unknown(`-${token[position]}`);
       }
+      if (!option.value) {
+        set(option, '');
+        continue;
+      }
+      const rest = token.slice(position + 1).replace(/^=/, '');
+      set(option, takeValue(option, rest || undefined));
+      break;
+    }
+  }
 
-      // Show staged notes if any exist
-      const stagedNotes = await loadStagedNotes();
-      if (stagedNotes.length > 0) {
-        console.log(`📝 Using ${stagedNotes.length} staged note${stagedNotes.length > 1 ? 's' : ''} for context`);
+  const help = values.has('help');
+  let action: string | undefined;
+  let expected: CliArguments = command;
+  if (command.actions && !help) {
+    action = args.shift() ?? command.defaultAction;
+    if (action !== undefined) {
+      if (!Object.hasOwn(command.actions, action)) {
+        const actions = Object.keys(command.actions).filter(name => !command.actions?.[name].hidden);
+        throw new UsageError(`Unknown ${title} action "${action}". Use one of: ${actions.join(', ')}`, command.name);
       }
+      expected = command.actions[action];
+    }
+  }
 
-      console.log('🤖 Generating commit message with AI...');
+  if (!help) {
+    if (!named && args.length > 0) {
+      throw new UsageError(`Unknown command "${args[0]}"`);
+    }
+    if (args.length < (expected.min ?? 0) || args.length > (expected.max ?? 0)) {
+      const usage = [getCommandTitle(command, action), expected.usage].filter(Boolean).join(' ');
+      throw new UsageError(args.length > (expected.max ?? 0) ? `Unexpected argument "${args[expected.max ?? 0]}". Usage: ${usage}` : `Usage: ${usage}`, command.name);
+    }
+  }
 
-      let commitMessage = await this.generateCommitMessage(diff);
+  return { command, action, args, help, values };
+}
 
-      // Get prefix and apply it to the commit message
-      const prefix = await getPrefix(options.prefix);
-      const config = loadGlobalConfig();
-      const prefixFormat = config.prefixFormat || 'brackets';
+function formatHelpRows(rows: [string, string][]): string[] {
+  const width = Math.max(...rows.map(([left]) => left.length)) + 2;
+  return rows.map(([left, right]) => `  ${left.padEnd(width)}${right}`);
+}
 
-      let finalMessage = formatCommitMessage(commitMessage, prefix, prefixFormat);
+function formatOptionRows(options: CliOption[]): string[] {
+  return formatHelpRows(options
+    .filter(option => !option.hidden)
+    .map(option => [
+      [`--${option.name}`, option.short && `-${option.short}`].filter(Boolean).join(', ') + (option.value ? ` ${option.value}` : ''),
+      option.description
+    ]));
+}
 
-      // Apply banner if enabled
-      const bannerEnabled = getBannerSetting(options.banner);
-      finalMessage = addBannerToMessage(finalMessage, bannerEnabled);
+function formatCommandHelp(command: CliCommand): string {
+  const title = getCommandTitle(command);
+  const lines = [`Usage: ${title} ${command.actions ? '<action> ' : ''}${command.usage ? `${command.usage} ` : ''}[options]`, '', command.description];
 
-      console.log('\n📝 Generated commit message:');
-      console.log(`   ${finalMessage}`);
+  if (command.actions) {
+    const actions = Object.entries(command.actions).filter(([, action]) => !action.hidden);
+    lines.push('', 'Actions:', ...formatHelpRows(actions.map(([name, action]) => [[name, action.usage].filter(Boolean).join(' '), action.description])));
+  }
 
-      if (prefix) {
-        console.log(`🏷️  Applied prefix: ${prefix} (format: ${prefixFormat})`);
-      }
+  lines.push('', 'Options:', ...formatOptionRows(getCommandOptions(command)));
+  return lines.join('\n');
+}
 
-      if (bannerEnabled) {
-        console.log('🏷️  Banner will be added to commit message');
-      }
+function getVisibleCommands(): CliCommand[] {
+  return CLI_COMMANDS.filter(command => command.name);
+}
 
-      if (options.dryRun) {
-        console.log('\n🔍 Dry run mode - not committing changes');
-        return;
-      }
+function getVisibleActions(command: CliCommand): [string, CliAction][] {
+  return Object.entries(command.actions ?? {}).filter(([, action]) => !action.hidden);
+}
 
-      console.log('\n🚀 Committing changes...');
-      await this.commitChanges(finalMessage);
+function getCompletionOptions(command: CliCommand): CliOption[] {
+  return getCommandOptions(command).filter(option => !option.hidden);
+}
 
-      // Clear staged notes after successful commit
-      if (stagedNotes.length > 0) {
-        await clearStagedNotes();
-        console.log('🗑️  Cleared staged notes after successful commit');
-      }
+function bashCompletion(): string {
+  const valueOptions = CLI_OPTIONS.filter(option => option.value && !option.hidden);
+  const flags = (option: CliOption) => [`--${option.name}`, ...(option.short ? [`-${option.short}`] : [])].join('|');
+  const words = (command: CliCommand) => getCompletionOptions(command).map(option => `--${option.name}`).join(' ');
 
-      console.log('✅ Successfully committed changes!');
+  const valueCases = valueOptions.map(option => {
+    const reply = option.choices ? `COMPREPLY=($(compgen -W "${option.choices.join(' ')}" -- "$cur"))` :
+      option.file ? 'COMPREPLY=($(compgen -f -- "$cur"))' : 'COMPREPLY=()';
+    return `    ${flags(option)}) ${reply}; return ;;`;
+  });
 
-    } catch (error) {
-      console.error('❌ Error:', error instanceof Error ? error.message : error);
-      process.exit(1);
+  const commandCases = getVisibleCommands().map(command => {
+    const actions = getVisibleActions(command).map(([name]) => name);
+    if (actions.length === 0) {
+      return `    ${command.name}) words="${words(command)}" ;;`;
     }
-  }
+    return [
+      `    ${command.name})`,
+      `      if (( COMP_CWORD == 2 )) && [[ "$cur" != -* ]]; then words="${actions.join(' ')}"; else words="${words(command)}"; fi ;;`
+    ].join('\n');
+  });
+
+  return `# bash completion for genius. Load it with: source <(genius completion bash)
+_genius() {
+  local cur="\${COMP_WORDS[COMP_CWORD]}" prev="\${COMP_WORDS[COMP_CWORD-1]}" words command=""
+  if (( COMP_CWORD > 1 )); then
+    command="\${COMP_WORDS[1]}"
+  fi
+
+  case "$prev" in
+${valueCases.join('\n')}
+  esac
+
+  case "$command" in
+${commandCases.join('\n')}
+    *)
+      if (( COMP_CWORD == 1 )) && [[ "$cur" != -* ]]; then words="${getVisibleCommands().map(command => command.name).join(' ')}"; else words="${words(CLI_COMMANDS[0])}"; fi ;;
+  esac
+  COMPREPLY=($(compgen -W "$words" -- "$cur"))
+}
+complete -F _genius genius
+`;
 }
 
-async function main() {
-  const args = process.argv.slice(2);
-  const dryRun = args.includes('--dry-run') || args.includes('-d');
-  const help = args.includes('--help') || args.includes('-h');
-  const init = args.includes('--init');
-  const listNotes = args.includes('--list-notes');
-  const clearNotes = args.includes('--clear-notes');
-  const regenerate = args.includes('--regenerate') || args.includes('-r');
-  const interactive = args.includes('--interactive') || args.includes('-i');
-
-  // Parse banner option (CLI flag takes precedence)
-  let cliBanner: boolean | undefined = undefined;
-  if (args.includes('--banner')) {
-    cliBanner = true;
-  } else if (args.includes('--no-banner')) {
-    cliBanner = false;
-  }
-
-  // Parse model option (CLI flag takes precedence over env var)
-  const modelIndex = args.findIndex(arg => arg === '--model' || arg === '-m');
-  const model = modelIndex !== -1 && args[modelIndex + 1] ? args[modelIndex + 1] : undefined;
-
-  // Parse prefix option
-  const prefixIndex = args.findIndex(arg => arg === '--prefix' || arg === '-p');
-  const cliPrefix = prefixIndex !== -1 && args[prefixIndex + 1] ? args[prefixIndex + 1] : undefined;
-
-  // Parse note option
-  const noteIndex = args.findIndex(arg => arg === '--note' || arg === '-n');
-  const note = noteIndex !== -1 && args[noteIndex + 1] ? args[noteIndex + 1] : undefined;
-
-  if (init) {
-    console.log('🔧 Creating global config file...');
-    console.log('');
+function zshCompletion(): string {
+  const quote = (text: string) => text.replace(/'/g, `'\\''`);
+  const describe = (text: string) => quote(text.replace(/([[\]:\\])/g, '\\$1'));
 
-    // Simple prompt for API key (in a real implementation, you might want to use a proper prompt library)
-    console.log('Please provide your Gemini API key:');
-    console.log('Get it from: https://makersuite.google.com/app/apikey');
-    console.log('');
-    console.log('You can also create the file manually at ~/.commit-genius.json:');
-    console.log('{');
-    console.log('  "apiKey": "your_gemini_api_key_here",');
-    console.log('  "model": "gemini-2.5-flash-lite",');
-    console.log('  "prefixFormat": "brackets",');
-    console.log('  "autoPrefixFromBranch": true,');
-    console.log('  "banner": true,');
-    console.log('  "bannerText": "🤖 AI-powered commit by commit-genius https://github.com/bgizdov/commit-genius"');
-    console.log('}');
-    console.log('');
-    console.log('Note: Prefixes are dynamic per commit, not stored in config.');
-    console.log('Use --prefix flag or branch naming conventions.');
-    return;
+  const specs = (command: CliCommand) => getCompletionOptions(command).map(option => {
+    const names = option.short ? `'(-${option.short} --${option.name})'{-${option.short},--${option.name}}'` : `'${option.name === 'pair' ? '*' : ''}--${option.name}`;
+    const value = !option.value ? '' : option.choices ? `:${option.value.slice(1, -1)}:(${option.choices.join(' ')})` :
+      option.file ? `:${option.value.slice(1, -1)}:_files` : `:${option.value.slice(1, -1)}: `;
+    return `${names}[${describe(option.description)}]${value}'`;
+  });
+
+  const commandCases = getVisibleCommands().map(command => {
+    const actions = getVisibleActions(command).map(([name]) => name);
+    const actionSpec = actions.length > 0 ? [`'1:action:(${actions.join(' ')})'`] : [];
+    return [
+      `    ${command.name})`,
+      '      shift words; (( CURRENT-- ))',
+      `      _arguments -s \\\n        ${[...actionSpec, ...specs(command)].join(' \\\n        ')} ;;`
+    ].join('\n');
+  });
+
+  return `#compdef genius
+# zsh completion for genius. Load it with: source <(genius completion zsh)
+# or save it as _genius in a directory on your $fpath
+_genius() {
+  local -a commands
+  commands=(
+${getVisibleCommands().map(command => `    '${command.name}:${quote(command.description.replace(/:/g, '\\:'))}'`).join('\n')}
+  )
+
+  if (( CURRENT == 2 )) && [[ \${words[CURRENT]} != -* ]]; then
+    _describe -t commands 'genius command' commands
+    return
+  fi
+
+  case \${words[2]} in
+${commandCases.join('\n')}
+    *)
+      _arguments -s \\
+        ${specs(CLI_COMMANDS[0]).join(' \\\n        ')} ;;
+  esac
+}
+
+if [[ "\${funcstack[1]}" = "_genius" ]]; then
+  _genius "$@"
+else
+  compdef _genius genius
+fi
+`;
+}
+
+function fishCompletion(): string {
+  const quote = (text: string) => `'${text.replace(/\\/g, '\\\\').replace(/'/g, '\\\'')}'`;
+  const lines = [
+    '# fish completion for genius. Load it with: genius completion fish | source',
+    'complete -c genius -f'
+  ];
+
+  const optionLines = (condition: string, command: CliCommand) => getCompletionOptions(command).map(option => {
+    const value = !option.value ? '' : option.choices ? ` -x -a ${quote(option.choices.join(' '))}` : option.file ? ' -r -F' : ' -x';
+    return `complete -c genius -n ${quote(condition)} -l ${option.name}${option.short ? ` -s ${option.short}` : ''}${value} -d ${quote(option.description)}`;
+  });
+
+  for (const command of getVisibleCommands()) {
+    lines.push(`complete -c genius -n __fish_use_subcommand -a ${command.name} -d ${quote(command.description)}`);
+  }
+  lines.push(...optionLines('__fish_use_subcommand', CLI_COMMANDS[0]));
+
+  for (const command of getVisibleCommands()) {
+    const seen = `__fish_seen_subcommand_from ${command.name}`;
+    const actions = getVisibleActions(command);
+    lines.push('');
+    for (const [name, action] of actions) {
+      const condition = `${seen}; and not __fish_seen_subcommand_from ${actions.map(([entry]) => entry).join(' ')}`;
+      lines.push(`complete -c genius -n ${quote(condition)} -a ${name} -d ${quote(action.description)}`);
+    }
+    lines.push(...optionLines(seen, command));
   }
 
-  if (help) {
-    console.log(`
+  return `${lines.join('\n')}\n`;
+}
+
+const COMPLETION_SCRIPTS: Record<string, () => string> = {
+  bash: bashCompletion,
+  zsh: zshCompletion,
+  fish: fishCompletion
+};
+
+function formatGeneralHelp(): string {
+  const commands = formatHelpRows(getVisibleCommands().map(command => [command.name, command.description]));
+  return `
 Commit Genius
 
 Usage:
-  genius [options]
+  genius [options]              Same as genius commit
+  genius <command> [options]
+  genius <command> --help       Show the actions and options of a command
   npm run commit [options]
 
+Commands:
+${commands.join('\n')}
+
 Options:
-  --dry-run, -d         Generate commit message without committing
-  --model, -m <model>   Specify Gemini model to use (default: gemini-2.5-flash-lite)
-  --prefix, -p <prefix> Prepend prefix to commit message (e.g., JR-1234)
-  --note, -n <message>  Add contextual note for commit message generation
-  --interactive, -i     Interactive mode: prompts for context before generating
-  --list-notes          Show all staged notes
-  --clear-notes         Clear all staged notes
-  --regenerate, -r      Regenerate and amend the last commit message
-  --banner              Enable banner in commit message (default: enabled)
-  --no-banner           Disable banner in commit message
-  --init                Create global config file (~/.commit-genius.json)
-  --help, -h            Show this help message
-
-Available Models:
+${formatOptionRows(getCommandOptions(CLI_COMMANDS[0])).join('\n')}
+
+Options take their value as the next argument or after "=" (--model=gemini-2.5-pro).
+Values that start with "-" need the "=" form (--note="-5% latency").
+
+Exit codes:
+  0  Success    1  Other error or invalid usage    2  Nothing staged    3  Config error    4  Model error
+
+Providers:
+  gemini                        # Google Gemini (default)
+  openai                        # Any OpenAI-compatible chat-completions endpoint
+  ollama                        # Local models via Ollama
+  replay                        # Responses recorded with --record (offline, deterministic)
+  stub                          # A fixed message (COMMIT_GENIUS_STUB_MESSAGE) or one from simple rules
+
+Available Models (gemini):
   gemini-2.5-flash-lite         # Default - Fast and efficient
   gemini-2.5-flash              # Balanced performance
   gemini-2.5-pro                # Most capable
   gemini-2.5-flash-image-preview # With image support
 
 Configuration (in order of precedence):
-  1. CLI flags (--model, --prefix)
+  1. CLI flags (--provider, --model, --prefix)
   2. Environment variables:
-     COMMIT_GENIUS_API_KEY    Your Google Gemini API key (required)
-     COMMIT_GENIUS_MODEL      Default model to use (optional)
-  3. Global config file (~/.commit-genius.json):
+     COMMIT_GENIUS_PROVIDER   Provider to use (optional)
+     COMMIT_GENIUS_API_KEY    Your Google Gemini API key (required for gemini)
+     COMMIT_GENIUS_MODEL      Default Gemini model to use (optional)
+     COMMIT_GENIUS_MESSAGE_STYLE  subject or full (optional)
+     COMMIT_GENIUS_PROMPT_TEMPLATE  Path to a prompt template file (optional)
+     COMMIT_GENIUS_OPENAI_API_KEY, COMMIT_GENIUS_OPENAI_MODEL, COMMIT_GENIUS_OPENAI_BASE_URL
+     COMMIT_GENIUS_OLLAMA_MODEL, COMMIT_GENIUS_OLLAMA_HOST
+  3. Repository config (.commit-genius.json or "commit-genius" in package.json at the repo root)
+  4. Global config file (~/.commit-genius.json):
      { "apiKey": "your_key", "model": "gemini-2.5-pro", "prefixFormat": "brackets" }
-  4. Branch detection (auto-extract from branch name like feature/JR-1234-desc)
-  5. Legacy environment variables (still supported):
+  5. Branch detection (auto-extract from branch name like feature/JR-1234-desc)
+  6. Legacy environment variables (still supported):
      GEMINI_API_KEY          Your Google Gemini API key
      GEMINI_MODEL            Default model
 
 Prefix Configuration:
-  --prefix, -p             Per-commit prefix (e.g., JR-1234, PROJ-567)
+  --prefix, -p             Per-commit prefix (e.g., JR-1234, PROJ-567, "JR-1,JR-2")
   Branch detection         Automatic extraction from branch names
-  No static config         Prefixes are dynamic, not stored in config files
+  Ticket patterns          "tickets": { "branchPatterns": [...], "prefixPatterns": [...] } in config
+  genius prefix            Show which pattern matched and the resulting prefix
 
 Staged Notes System:
-  genius --note "Fix browser bug in Chrome"           # Add context note
-  genius --note "See upstream issue: github.com/..."  # Add reference
+  genius notes add "Fix browser bug in Chrome"        # Add context note
+  genius notes add --type references "Closes #42"    # Add a categorized note
   genius --interactive                                # Interactive mode: guided prompts
-  genius --list-notes                                 # View all notes
+  genius notes list                                   # View all notes
+  genius notes edit 2                                 # Edit note 2 in your editor
+  genius notes rm 2                                   # Remove note 2
   genius                                              # Generate commit with notes
-  genius --clear-notes                                # Clear all notes
+  genius notes clear                                  # Clear all notes
 
 Examples:
   genius                                 # Auto-detect prefix from branch, use default model
@@ -898,49 +6292,288 @@ Examples:
   genius --prefix "JR-1234"              # Add specific prefix to this commit
   genius --model gemini-2.5-pro         # Override with Pro model
   genius -p "PROJ-567" -m gemini-2.5-pro # Custom prefix and model for this commit
-  genius -n "Pinning due to v1.0.1 bug" # Add context note and commit
+  genius --provider openai -m gpt-4o     # Use an OpenAI-compatible endpoint
+  genius --provider ollama -m qwen2.5-coder # Run fully offline with a local model
   genius -i -d                           # Interactive mode with dry run
-  genius --regenerate                    # Regenerate and amend last commit message
-  genius -r --dry-run                    # Preview new message for last commit
+  genius --full -i                       # Full message with a body explaining WHY
+  genius regenerate                      # Regenerate and amend last commit message
+  genius regenerate --dry-run            # Preview new message for last commit
+  genius -c 3                            # Pick from three candidate messages
+  genius -y                              # Commit the first message without reviewing
+  genius --print | pbcopy                # Copy a message for the staged changes
+  genius --json -y | jq -r .hash         # Commit from a script and read the new hash
+  genius --learn-style                   # Match the style of the repository's history
+  genius split                           # Split unrelated staged work into several commits
+  genius split --dry-run                 # Preview the proposed commits
+  genius prompt --full                   # Inspect the prompt your template renders
+  genius reword HEAD~2                   # Reword one older commit
+  genius reword main..HEAD               # Clean up every commit on a feature branch
+  genius pr                              # Pull request title and description for this branch
+  genius pr --base develop -o pr.md      # Against another base, written to a file
+  genius changelog -o CHANGELOG.md       # Prepend everything since the last tag
+  genius changelog --from v1.4.0 --to v1.5.0 --highlights
+  source <(genius completion bash)       # Tab completion (also zsh and fish)
   npm run commit                         # Generate and commit
-`);
+`;
+}
+
+async function main() {
+  // Load environment variables (quietly: stdout may be reserved for --quiet/--json output).
+  // Only the CLI does this; library callers own their environment
+  dotenv.config({ quiet: true });
+
+  let commandLine: CommandLine;
+  try {
+    commandLine = parseCommandLine(process.argv.slice(2));
+  } catch (error) {
+    // A script that asked for JSON gets the usage error as JSON too
+    if (process.argv.includes('--json')) {
+      setOutputMode('json');
+    }
+    exitWithError(error);
+  }
+
+  // Pick the output mode first so every later status line goes to the right stream
+  const { values } = commandLine;
+  if (values.has('json')) {
+    setOutputMode('json');
+  } else if (values.has('print') || values.has('quiet')) {
+    setOutputMode('quiet');
+  }
+
+  // Status lines go through the logger: stdout in text mode, stderr when stdout carries only the result
+  const cliLogger = outputMode === 'text' ? consoleLogger : stderrLogger;
+  await withLogger(cliLogger, () => runCommand(commandLine, cliLogger));
+}
+
+async function runCommand(commandLine: CommandLine, cliLogger: Logger): Promise<void> {
+  const { command, action, args, values } = commandLine;
+  const flag = (name: string) => values.has(name);
+  const value = (name: string) => values.get(name)?.at(-1);
+  const json = flag('json');
+  const print = flag('print');
+
+  // A JSON result only exists for a commit or a regenerated message
+  if (json && (commandLine.help || flag('note') || flag('list-notes') || flag('clear-notes') || flag('init'))) {
+    exitWithError(new UsageError('--json is only supported when committing or regenerating', command.name));
+  }
+
+  if (commandLine.help) {
+    console.log(command.name ? formatCommandHelp(command) : formatGeneralHelp());
     return;
   }
 
-  const apiKey = getApiKey();
-
-  if (!apiKey) {
-    console.error('❌ Error: API key is required');
-    console.error('Please set your Gemini API key using one of these methods:');
-    console.error('');
-    console.error('1. Environment variables:');
-    console.error('   export COMMIT_GENIUS_API_KEY="your_api_key_here"');
-    console.error('   export GEMINI_API_KEY="your_api_key_here"  # Legacy');
-    console.error('');
-    console.error('2. Global config file (~/.commit-genius.json):');
-    console.error('   {');
-    console.error('     "apiKey": "your_api_key_here",');
-    console.error('     "model": "gemini-2.5-flash-lite",');
-    console.error('     "prefixFormat": "brackets"');
-    console.error('   }');
-    console.error('');
-    console.error('3. Local .env file (for project-specific setup):');
-    console.error('   COMMIT_GENIUS_API_KEY=your_api_key_here');
-    process.exit(1);
+  // Commands with actions print their help when the action is missing
+  if (command.actions && !action) {
+    console.log(formatCommandHelp(command));
+    return;
+  }
+
+  const regenerate = command.name === 'regenerate' || flag('regenerate');
+  const split = command.name === 'split';
+  const showPrompt = command.name === 'prompt';
+  const pr = command.name === 'pr';
+  const changelog = command.name === 'changelog';
+  const reword = command.name === 'reword' ? args[0] : undefined;
+  const highlights = flag('highlights');
+  const record = flag('record');
+  const cliProvider = value('provider');
+  const model = value('model');
+  const fixtures = value('fixtures');
+  const noteType = value('type');
+
+  // --pair alice,bob or --pair alice --pair bob
+  const pair = values.get('pair') ?? [];
+
+  let messageFile: string | undefined;
+
+  try {
+    switch (command.name) {
+      case 'notes': {
+        const parsedType = noteType ? parseNoteCategory(noteType) : undefined;
+        switch (action) {
+          case 'add':
+            await addStagedNote(args.join(' '), parsedType);
+            return;
+          case 'list':
+            await listStagedNotes();
+            return;
+          case 'edit':
+            await editStagedNote(args[0], args.length > 1 ? args.slice(1).join(' ') : undefined, parsedType);
+            return;
+          case 'rm':
+            await removeStagedNote(args[0]);
+            return;
+          case 'clear':
+            await clearStagedNotes();
+            return;
+        }
+        return;
+      }
+      case 'cache':
+        await clearGenerationCache();
+        return;
+      case 'hook':
+        switch (action) {
+          case 'install':
+            await installHook();
+            return;
+          case 'uninstall':
+            await uninstallHook();
+            return;
+          case 'status':
+            await showHookStatus();
+            return;
+          case 'post-commit':
+            await finishHookCommit();
+            return;
+        }
+        {
+          // Called by the prepare-commit-msg hook: genius hook run <file> [source]
+          const [file, source] = args;
+          if (!file || (source && HOOK_SKIPPED_SOURCES.includes(source))) {
+            return;
+          }
+          if (fs.existsSync(file) && hasUserMessage(fs.readFileSync(file, 'utf8'))) {
+            return;
+          }
+          messageFile = file;
+        }
+        break;
+      case 'completion':
+        printOutput(COMPLETION_SCRIPTS[action as string]().trimEnd());
+        return;
+      case 'prefix':
+        await explainPrefix(value('prefix'));
+        return;
+      case 'config':
+        showEffectiveConfig();
+        return;
+    }
+  } catch (error) {
+    exitWithError(error);
+  }
+
+  // The note options of plain "genius" (same as genius notes add/list/clear) need no model
+  try {
+    if (flag('note')) {
+      await addStagedNote(value('note')!, noteType ? parseNoteCategory(noteType) : undefined);
+      return;
+    }
+    if (flag('list-notes')) {
+      await listStagedNotes();
+      return;
+    }
+    if (flag('clear-notes')) {
+      await clearStagedNotes();
+      return;
+    }
+  } catch (error) {
+    exitWithError(error);
+  }
+
+  if (flag('init')) {
+    console.log('🔧 Creating global config file...');
+    console.log('');
+
+    // Simple prompt for API key (in a real implementation, you might want to use a proper prompt library)
+    console.log('Please provide your Gemini API key:');
+    console.log('Get it from: https://makersuite.google.com/app/apikey');
+    console.log('');
+    console.log('You can also create the file manually at ~/.commit-genius.json:');
+    console.log('{');
+    console.log('  "apiKey": "your_gemini_api_key_here",');
+    console.log('  "model": "gemini-2.5-flash-lite",');
+    console.log('  "prefixFormat": "brackets",');
+    console.log('  "autoPrefixFromBranch": true,');
+    console.log('  "banner": true,');
+    console.log('  "bannerText": "🤖 AI-powered commit by commit-genius https://github.com/bgizdov/commit-genius"');
+    console.log('}');
+    console.log('');
+    console.log('Note: Prefixes are dynamic per commit, not stored in config.');
+    console.log('Use --prefix flag or branch naming conventions.');
+    return;
   }
 
-  const generator = new AICommitGenerator(apiKey, model);
-  await generator.run({
-    dryRun,
+  let provider: LLMProvider;
+  try {
+    const providerName = getProviderName(cliProvider);
+    if (showPrompt || (changelog && !highlights)) {
+      // Showing the prompt and plain changelogs never call the model, so no API key is needed
+      provider = {
+        name: providerName,
+        model: model || '',
+        generate: () => Promise.reject(new Error('The model is not called for this command'))
+      };
+    } else {
+      provider = providerName === 'replay' && fixtures ?
+        new ReplayProvider(getFixturesDir(fixtures), model) :
+        createProvider(providerName, model);
+    }
+
+    if (record) {
+      if (providerName === 'replay') {
+        throw new ConfigError('--record saves the responses of a real provider; it can\'t be used with the replay provider');
+      }
+      const fixturesDir = getFixturesDir(fixtures);
+      logger.info(`📼 Recording model responses to ${fixturesDir}`);
+      provider = new RecordingProvider(provider, fixturesDir);
+    }
+  } catch (error) {
+    exitWithError(error);
+  }
+
+  const refs: RefsTrailerMode | undefined = flag('closes') ? 'closes' : flag('refs') ? 'refs' : flag('no-refs') ? 'none' : undefined;
+
+  const options: CommitMessageOptions = {
+    dryRun: flag('dry-run') || print,
     model,
-    prefix: cliPrefix,
-    note,
-    listNotes,
-    clearNotes,
+    provider: cliProvider,
+    // --full is a shortcut for --message-style full
+    messageStyle: flag('full') ? 'full' : value('message-style'),
+    messageFile,
+    blockOnSecrets: flag('block-on-secrets') ? true : undefined,
+    candidates: value('candidates'),
+    yes: flag('yes'),
+    learnStyle: flag('learn-style') ? true : flag('no-learn-style') ? false : undefined,
+    reword,
+    force: flag('force'),
+    base: value('base'),
+    output: value('output'),
+    from: value('from'),
+    to: value('to'),
+    highlights,
+    refs,
+    pair,
+    signOff: flag('signoff') ? true : undefined,
+    bannerTrailer: flag('banner-trailer') ? true : undefined,
+    // A cached message would leave nothing to record
+    cache: record || flag('no-cache') ? false : undefined,
+    prefix: value('prefix'),
     regenerate,
-    interactive,
-    banner: cliBanner
-  });
+    interactive: flag('interactive'),
+    // CLI flag takes precedence over the config
+    banner: flag('banner') ? true : flag('no-banner') ? false : undefined
+  };
+
+  try {
+    const generator = new AICommitGenerator(provider);
+    if (split) {
+      await generator.splitStagedChanges(options);
+    } else if (reword) {
+      await generator.rewordCommits(options);
+    } else if (pr) {
+      await generator.generatePullRequest(options);
+    } else if (changelog) {
+      await generator.generateChangelog(options);
+    } else if (showPrompt) {
+      await generator.showPrompt(options);
+    } else {
+      await runCommitFlow(provider, options, cliLogger);
+    }
+  } catch (error) {
+    exitWithError(error);
+  }
 }
 
 // Run the main function
@@ -951,4 +6584,10 @@ if (require.main === module) {
   });
 }
 
-export { AICommitGenerator };
+export { generate, commit, amend, consoleLogger, silentLogger };
+export { CommitGeniusError, NoStagedChangesError, ConfigError, ModelError, GitError, UsageError, SecretsFoundError };
+export { AICommitGenerator, createProvider, GeminiProvider, OpenAICompatibleProvider, OllamaProvider };
+export { ReplayProvider, RecordingProvider, StubProvider };
+export { parseCommitMessage, renderCommitMessage, wrapText };
+export type { GenerateOptions, GenerateResult, CommitOptions, DiffSource, Logger, NoteCategory, ErrorCode };
+export type { LLMProvider, ProviderName, MessageStyle, CommitMessageParts };
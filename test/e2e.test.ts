@@ -0,0 +1,670 @@
+// End-to-end tests: run the built CLI against temporary git repositories, with the stub
+// and replay providers instead of a real model. Run with: npm test
+import { describe, test, beforeEach, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { spawn, spawnSync } from 'child_process';
+import * as fs from 'fs';
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import * as os from 'os';
+import * as path from 'path';
+
+const CLI = path.resolve(__dirname, '..', 'dist', 'index.js');
+const BANNER = '🤖 AI-powered commit by commit-genius https://github.com/bgizdov/commit-genius';
+
+interface RunResult {
+  status: number | null;
+  stdout: string;
+  stderr: string;
+}
+
+function librarySource(script: string): string {
+  return `const lib = require(${JSON.stringify(CLI)});\n(async () => {\n${script}\n})().catch(error => { console.error(error); process.exit(1); });`;
+}
+
+class TestRepo {
+  readonly dir: string;
+  readonly home: string;
+
+  constructor() {
+    this.home = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-genius-home-'));
+    this.dir = fs.mkdtempSync(path.join(os.tmpdir(), 'commit-genius-repo-'));
+    this.git('init', '-q', '-b', 'main');
+    this.git('commit', '-q', '--allow-empty', '-m', 'init');
+  }
+
+  get env(): NodeJS.ProcessEnv {
+    // Keep the developer's own config, keys and git settings out of the tests
+    const env: NodeJS.ProcessEnv = {};
+    for (const [key, value] of Object.entries(process.env)) {
+      if (!/^(COMMIT_GENIUS_|GEMINI_|OPENAI_|OLLAMA_|GIT_)/.test(key)) {
+        env[key] = value;
+      }
+    }
+
+    return {
+      ...env,
+      HOME: this.home,
+      GIT_CONFIG_NOSYSTEM: '1',
+      GIT_AUTHOR_NAME: 'Test',
+      GIT_AUTHOR_EMAIL: 'test@example.com',
+      GIT_COMMITTER_NAME: 'Test',
+      GIT_COMMITTER_EMAIL: 'test@example.com',
+      COMMIT_GENIUS_PROVIDER: 'stub'
+    };
+  }
+
+  git(...args: string[]): string {
+    const result = spawnSync('git', args, { cwd: this.dir, env: this.env, encoding: 'utf8' });
+    if (result.status !== 0) {
+      throw new Error(`git ${args.join(' ')} failed: ${result.stderr}`);
+    }
+    return result.stdout.trim();
+  }
+
+  genius(args: string[] = [], env: NodeJS.ProcessEnv = {}): RunResult {
+    // stdin is not a terminal, so the review step is skipped like in scripts
+    const result = spawnSync(process.execPath, [CLI, ...args], {
+      cwd: this.dir,
+      env: { ...this.env, ...env },
+      encoding: 'utf8',
+      input: '',
+      timeout: 60000
+    });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+  }
+
+  // For tests whose model server runs in this process, which spawnSync would block
+  geniusAsync(args: string[] = [], env: NodeJS.ProcessEnv = {}): Promise<RunResult> {
+    return this.nodeAsync([CLI, ...args], env);
+  }
+
+  // Runs a script in the repository that uses the library API of the built package
+  library(script: string): RunResult {
+    const result = spawnSync(process.execPath, ['-e', librarySource(script)], { cwd: this.dir, env: this.env, encoding: 'utf8', timeout: 60000 });
+    return { status: result.status, stdout: result.stdout, stderr: result.stderr };
+  }
+
+  libraryAsync(script: string, env: NodeJS.ProcessEnv = {}): Promise<RunResult> {
+    return this.nodeAsync(['-e', librarySource(script)], env);
+  }
+
+  private nodeAsync(args: string[], env: NodeJS.ProcessEnv): Promise<RunResult> {
+    return new Promise((resolve, reject) => {
+      const child = spawn(process.execPath, args, { cwd: this.dir, env: { ...this.env, ...env }, timeout: 60000 });
+      let stdout = '';
+      let stderr = '';
+      child.stdout.on('data', data => stdout += data);
+      child.stderr.on('data', data => stderr += data);
+      child.on('error', reject);
+      child.on('close', status => resolve({ status, stdout, stderr }));
+      child.stdin.end();
+    });
+  }
+
+  stage(file: string, content: string): void {
+    fs.mkdirSync(path.dirname(path.join(this.dir, file)), { recursive: true });
+    fs.writeFileSync(path.join(this.dir, file), content);
+    this.git('add', file);
+  }
+
+  lastMessage(): string {
+    return this.git('log', '-1', '--format=%B');
+  }
+
+  remove(): void {
+    fs.rmSync(this.dir, { recursive: true, force: true });
+    fs.rmSync(this.home, { recursive: true, force: true });
+  }
+}
+
+let repo: TestRepo;
+
+beforeEach(() => {
+  repo = new TestRepo();
+});
+
+afterEach(() => {
+  repo.remove();
+});
+
+describe('commit', () => {
+  test('commits the staged changes with the generated message and banner', () => {
+    repo.stage('src/app.ts', 'export const app = 1;\n');
+
+    const result = repo.genius();
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(repo.lastMessage(), `feat: add app.ts\n\n${BANNER}`);
+  });
+
+  test('uses the fixed stub message', () => {
+    repo.stage('a.txt', 'a\n');
+
+    const result = repo.genius(['--no-banner'], { COMMIT_GENIUS_STUB_MESSAGE: 'fix: handle empty input' });
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(repo.lastMessage(), 'fix: handle empty input');
+  });
+
+  test('keeps the subject of a full message within 50 characters', () => {
+    repo.stage('a.txt', 'a\n');
+    const message = 'fix: handle empty input in the parser and the tokenizer of the config loader\n\nEmpty files crashed the loader.';
+
+    const result = repo.genius(['--full', '--no-banner'], { COMMIT_GENIUS_STUB_MESSAGE: message });
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stdout + result.stderr, /Subject line is 76 characters \(limit: 50\), retrying/);
+    assert.equal(repo.lastMessage(), 'fix: handle empty input in the parser and the\n\nEmpty files crashed the loader.');
+  });
+
+  test('describes modified documentation as docs', () => {
+    repo.stage('README.md', '# Title\n');
+    repo.git('commit', '-q', '-m', 'add readme');
+    repo.stage('README.md', '# Title\n\nMore text.\n');
+
+    assert.equal(repo.genius(['--no-banner']).status, 0);
+    assert.equal(repo.lastMessage(), 'docs: update README.md');
+  });
+
+  test('adds the ticket prefix from the branch name', () => {
+    repo.git('checkout', '-q', '-b', 'feature/JR-42-login');
+    repo.stage('login.ts', 'export {};\n');
+
+    assert.equal(repo.genius(['--no-banner']).status, 0);
+    assert.equal(repo.lastMessage(), '[JR-42] feat: add login.ts');
+  });
+
+  test('uses the colon prefix format from the repository config', () => {
+    repo.git('checkout', '-q', '-b', 'feature/JR-42-login');
+    fs.writeFileSync(path.join(repo.dir, '.commit-genius.json'), JSON.stringify({ prefixFormat: 'colon', banner: false }));
+    repo.stage('login.ts', 'export {};\n');
+
+    assert.equal(repo.genius().status, 0);
+    assert.equal(repo.lastMessage(), 'JR-42: feat: add login.ts');
+  });
+
+  test('adds Refs and Signed-off-by trailers', () => {
+    repo.stage('login.ts', 'export {};\n');
+
+    const result = repo.genius(['--no-banner', '--prefix', 'JR-7', '--refs', '--signoff']);
+
+    assert.equal(result.status, 0, result.stderr);
+    const trailers = spawnSync('git', ['interpret-trailers', '--parse'], { input: repo.lastMessage(), encoding: 'utf8' }).stdout;
+    assert.equal(trailers, 'Refs: JR-7\nSigned-off-by: Test <test@example.com>\n');
+  });
+
+  test('uses staged notes and clears them after committing', () => {
+    repo.stage('a.txt', 'a\n');
+    assert.equal(repo.genius(['notes', 'add', '--type', 'problem', 'Sessions expired mid-upload']).status, 0);
+
+    const fixtures = path.join(repo.home, 'fixtures');
+    const result = repo.genius(['--no-banner', '--record', '--fixtures', fixtures]);
+
+    assert.equal(result.status, 0, result.stderr);
+    const [fixture] = fs.readdirSync(fixtures);
+    const { prompt } = JSON.parse(fs.readFileSync(path.join(fixtures, fixture), 'utf8'));
+    assert.match(prompt, /Problem solved:\n• Sessions expired mid-upload/);
+    assert.match(repo.genius(['notes', 'list']).stdout, /No staged notes found/);
+  });
+
+  test('exits with 2 when nothing is staged', () => {
+    const result = repo.genius();
+
+    assert.equal(result.status, 2);
+    assert.match(result.stderr, /No staged changes found/);
+  });
+
+  test('exits with 3 for an unknown provider', () => {
+    repo.stage('a.txt', 'a\n');
+
+    assert.equal(repo.genius(['--provider', 'nope']).status, 3);
+  });
+});
+
+describe('regenerate', () => {
+  test('amends the last commit message', () => {
+    repo.stage('a.txt', 'a\n');
+    repo.git('commit', '-q', '-m', 'wip');
+
+    const result = repo.genius(['--regenerate', '--no-banner']);
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(repo.lastMessage(), 'feat: add a.txt');
+    assert.equal(repo.git('rev-list', '--count', 'HEAD'), '2');
+  });
+
+  test('genius regenerate is the same as --regenerate', () => {
+    repo.stage('a.txt', 'a\n');
+    repo.git('commit', '-q', '-m', 'wip');
+
+    assert.equal(repo.genius(['regenerate', '--no-banner']).status, 0);
+    assert.equal(repo.lastMessage(), 'feat: add a.txt');
+  });
+});
+
+describe('reword', () => {
+  test('warns that signed commits lose their signature unless commit.gpgsign is set', () => {
+    const key = path.join(repo.home, 'signing-key');
+    spawnSync('ssh-keygen', ['-q', '-t', 'ed25519', '-N', '', '-f', key]);
+    repo.git('config', 'gpg.format', 'ssh');
+    repo.git('config', 'user.signingkey', key);
+    repo.stage('a.txt', 'a\n');
+    repo.git('commit', '-q', '-S', '-m', 'wip');
+    const isSigned = () => repo.git('cat-file', 'commit', 'HEAD').includes('\ngpgsig ');
+
+    const unsigned = repo.genius(['reword', 'HEAD', '--yes', '--no-banner']);
+
+    assert.equal(unsigned.status, 0, unsigned.stderr);
+    assert.match(unsigned.stderr, /is signed; rewriting it drops its signature/);
+    assert.equal(repo.lastMessage(), 'feat: add a.txt');
+    assert.equal(isSigned(), false);
+
+    repo.git('commit', '-q', '--amend', '-S', '-m', 'wip');
+    repo.git('config', 'commit.gpgsign', 'true');
+
+    const signed = repo.genius(['reword', 'HEAD', '--yes', '--no-banner']);
+
+    assert.equal(signed.status, 0, signed.stderr);
+    assert.match(signed.stdout + signed.stderr, /is signed and will be signed again/);
+    assert.equal(isSigned(), true);
+  });
+});
+
+describe('hook', () => {
+  test('plain git commit uses the generated message and clears the notes it used', () => {
+    assert.equal(repo.genius(['hook', 'install']).status, 0);
+    assert.equal(repo.genius(['notes', 'add', 'Needed by the importer']).status, 0);
+    repo.stage('a.txt', 'a\n');
+
+    // Emptying the message in the editor aborts the commit, so the note is kept
+    const aborted = spawnSync('git', ['commit', '-q'], { cwd: repo.dir, env: { ...repo.env, GIT_EDITOR: 'sh -c ": > \\"$1\\"" -' }, encoding: 'utf8' });
+    assert.notEqual(aborted.status, 0);
+    assert.match(repo.genius(['notes', 'list']).stdout, /Needed by the importer/);
+
+    const result = spawnSync('git', ['commit', '-q'], { cwd: repo.dir, env: { ...repo.env, GIT_EDITOR: 'true' }, encoding: 'utf8' });
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(repo.lastMessage(), `feat: add a.txt\n\n${BANNER}`);
+    assert.match(repo.genius(['notes', 'list']).stdout, /No staged notes found/);
+  });
+});
+
+describe('output modes', () => {
+  test('--print writes only the message to stdout and does not commit', () => {
+    repo.stage('a.txt', 'a\n');
+    const head = repo.git('rev-parse', 'HEAD');
+
+    const result = repo.genius(['--print', '--no-banner']);
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(result.stdout, 'feat: add a.txt\n');
+    assert.equal(repo.git('rev-parse', 'HEAD'), head);
+  });
+
+  test('--json describes the commit', () => {
+    repo.stage('a.txt', 'a\n');
+    repo.stage('b.txt', 'b\n');
+
+    const result = repo.genius(['--json', '--no-banner', '--prefix', 'JR-1']);
+
+    assert.equal(result.status, 0, result.stderr);
+    const output = JSON.parse(result.stdout);
+    assert.equal(output.message, '[JR-1] feat: add 2 files');
+    assert.equal(output.prefix, 'JR-1');
+    assert.equal(output.provider, 'stub');
+    assert.equal(output.files, 2);
+    assert.equal(output.committed, true);
+    assert.equal(output.hash, repo.git('rev-parse', 'HEAD'));
+  });
+
+  test('--json reports errors with their exit code', () => {
+    const result = repo.genius(['--json']);
+
+    assert.equal(result.status, 2);
+    assert.equal(JSON.parse(result.stdout).error.code, 'nothing_staged');
+  });
+
+  test('a dry run and the following commit use the same cached message', () => {
+    repo.stage('a.txt', 'a\n');
+
+    const dryRun = JSON.parse(repo.genius(['--json', '--dry-run']).stdout);
+    const committed = JSON.parse(repo.genius(['--json']).stdout);
+
+    assert.equal(dryRun.cached, false);
+    assert.equal(committed.cached, true);
+    assert.equal(committed.message, dryRun.message);
+  });
+});
+
+describe('redaction', () => {
+  test('redacts credentials assigned to secret-looking names', () => {
+    repo.stage('config.ts', 'const apiKey = "abcd1234efgh";\nconst options = { "clientSecret": "s3cr3tvalue", authToken: \'tok_998877\' };\n');
+    repo.stage('deploy.sh', 'export DB_PASSWORD=hunter2222\n');
+    repo.stage('app.yml', 'password: hunter2222\n');
+
+    const result = repo.genius(['prompt']);
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.doesNotMatch(result.stdout, /abcd1234efgh|s3cr3tvalue|tok_998877|hunter2222/);
+    assert.equal(result.stdout.match(/\[REDACTED:secret-assignment\]/g)?.length, 5);
+  });
+
+  test('leaves code that only mentions tokens, auth or passwords alone', () => {
+    const code = [
+      'const tokens = tokenize(input);',
+      'const authHeader = buildAuthHeader(request);',
+      'const maxTokens = computeLimit(model);',
+      'const passwordField = document.getElementById("pw");',
+      'token = refresh_token'
+    ];
+    repo.stage('auth.ts', `${code.join('\n')}\n`);
+
+    const result = repo.genius(['prompt']);
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.doesNotMatch(result.stdout, /REDACTED/);
+    for (const line of code) {
+      assert.ok(result.stdout.includes(`+${line}`), line);
+    }
+  });
+});
+
+describe('command line', () => {
+  test('genius commit takes --flag=value options', () => {
+    repo.stage('a.txt', 'a\n');
+
+    const result = repo.genius(['commit', '--no-banner', '--prefix=JR-9', '--message-style=subject']);
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(repo.lastMessage(), '[JR-9] feat: add a.txt');
+  });
+
+  test('validates env settings and commits with the banner setting config reports', () => {
+    repo.stage('a.txt', 'a\n');
+    const env = { COMMIT_GENIUS_BANNER: 'off', COMMIT_GENIUS_MESSAGE_STYLE: 'long' };
+
+    const config = repo.genius(['config'], env);
+
+    assert.equal(config.status, 0, config.stderr);
+    assert.match(config.stdout, /banner +false +\(env COMMIT_GENIUS_BANNER\)/);
+    assert.match(config.stdout, /messageStyle +"subject" +\(default\)/);
+    assert.match(config.stdout, /env COMMIT_GENIUS_MESSAGE_STYLE: messageStyle: expected "subject" \| "full", got "long"/);
+
+    const result = repo.genius([], env);
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.equal(repo.lastMessage(), 'feat: add a.txt');
+  });
+
+  test('rejects unknown options', () => {
+    repo.stage('a.txt', 'a\n');
+    const head = repo.git('rev-parse', 'HEAD');
+
+    const result = repo.genius(['--dry-rn']);
+
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /Unknown option "--dry-rn" for genius/);
+    assert.equal(repo.git('rev-parse', 'HEAD'), head);
+  });
+
+  test('rejects options of other commands', () => {
+    const result = repo.genius(['notes', 'list', '--json']);
+
+    assert.equal(result.status, 1);
+    assert.equal(JSON.parse(result.stdout).error.code, 'usage');
+  });
+
+  test('does not take a flag as the value of --note', () => {
+    const result = repo.genius(['--note', '--dry-run']);
+
+    assert.equal(result.status, 1);
+    assert.match(result.stderr, /--note needs a value/);
+    assert.match(repo.genius(['notes', 'list']).stdout, /No staged notes found/);
+  });
+
+  test('manages notes with subcommands', () => {
+    assert.equal(repo.genius(['notes', 'add', '--type=technical', 'Keeps', 'the', 'old', 'API']).status, 0);
+    assert.match(repo.genius(['notes', 'list']).stdout, /\[technical\] Keeps the old API/);
+
+    assert.equal(repo.genius(['notes', 'clear']).status, 0);
+    assert.match(repo.genius(['notes']).stdout, /No staged notes found/);
+  });
+
+  test('prints the help of a subcommand', () => {
+    const result = repo.genius(['notes', '--help']);
+
+    assert.equal(result.status, 0);
+    assert.match(result.stdout, /Usage: genius notes <action>/);
+    assert.match(result.stdout, /--type, -t <type>/);
+    assert.doesNotMatch(result.stdout, /--dry-run/);
+  });
+
+  test('prints completion scripts', () => {
+    for (const shell of ['bash', 'zsh', 'fish']) {
+      const result = repo.genius(['completion', shell]);
+      assert.equal(result.status, 0, result.stderr);
+      assert.match(result.stdout, /regenerate/);
+    }
+
+    const bash = spawnSync('bash', ['-n'], { input: repo.genius(['completion', 'bash']).stdout });
+    assert.equal(bash.status, 0, String(bash.stderr));
+  });
+});
+
+describe('library', () => {
+  // Name of the error class the promise rejects with, and whether it is a CommitGeniusError
+  const describeError = `const failure = promise => promise.then(() => 'resolved', error =>
+    \`\${error.constructor.name} \${error instanceof lib.CommitGeniusError} \${error.exitCode}\`);`;
+
+  test('throws typed errors', () => {
+    const nothingStaged = repo.library(`${describeError}
+      console.log(await failure(lib.commit('feat: nothing')));
+      console.log(await failure(lib.generate({ provider: new lib.StubProvider() })));`);
+    assert.equal(nothingStaged.status, 0, nothingStaged.stderr);
+    assert.deepEqual(nothingStaged.stdout.trim().split('\n'), ['GitError true 1', 'NoStagedChangesError true 2']);
+
+    repo.stage('config.ts', 'const apiKey = "abcd1234efgh";\n');
+    const secrets = repo.library(`${describeError}
+      console.log(await failure(lib.generate({ provider: new lib.StubProvider(), blockOnSecrets: true })));
+      const error = await lib.generate({ provider: new lib.StubProvider(), blockOnSecrets: true }).catch(error => error);
+      console.log(error instanceof lib.ConfigError, error.findings.map(finding => finding.rule).join());`);
+    assert.equal(secrets.status, 0, secrets.stderr);
+    assert.deepEqual(secrets.stdout.trim().split('\n'), ['SecretsFoundError true 3', 'true secret-assignment']);
+  });
+
+  test('overlapping calls keep their own logger', () => {
+    repo.stage('a.txt', 'a\n');
+
+    const result = repo.library(`
+      const lines = { first: [], second: [] };
+      const logger = name => ({ info: line => lines[name].push(line), warn: line => lines[name].push(line) });
+      const provider = new lib.StubProvider();
+      const results = await Promise.all([
+        lib.generate({ provider, cache: false, banner: false, logger: logger('first') }),
+        lib.generate({ provider, cache: false, banner: false, logger: logger('second') })
+      ]);
+      console.log(JSON.stringify({ messages: results.map(result => result.message), lines }));`);
+
+    assert.equal(result.status, 0, result.stderr);
+    const { messages, lines } = JSON.parse(result.stdout);
+    assert.deepEqual(messages, ['feat: add a.txt', 'feat: add a.txt']);
+    assert.ok(lines.first.length > 0);
+    assert.deepEqual(lines.first, lines.second);
+  });
+
+  test('clears the notes of a committed result and can ignore the config', async () => {
+    repo.stage('a.txt', 'a\n');
+    assert.equal(repo.genius(['notes', 'add', 'Needed by the importer']).status, 0);
+
+    // useConfig: false ignores the env var, so the banner is added by default
+    const result = await repo.libraryAsync(`
+      const generated = await lib.generate({ provider: new lib.StubProvider('feat: add a.txt'), useConfig: false });
+      const hash = await lib.commit(generated.message, { generated });
+      console.log(JSON.stringify({ message: generated.message, notes: generated.notes, hash }));`, { COMMIT_GENIUS_BANNER: 'false' });
+
+    assert.equal(result.status, 0, result.stderr);
+    const { message, notes, hash } = JSON.parse(result.stdout);
+    assert.match(message, /^feat: add a\.txt\n\n.*AI-powered commit by commit-genius/);
+    assert.deepEqual(notes, [{ message: 'Needed by the importer', category: 'general' }]);
+    assert.equal(hash, repo.git('rev-parse', 'HEAD').trim());
+    assert.equal(repo.lastMessage(), message);
+    assert.match(repo.genius(['notes', 'list']).stdout, /No staged notes found/);
+  });
+});
+
+describe('replay', () => {
+  test('replays the recorded responses', () => {
+    const fixtures = path.join(repo.home, 'fixtures');
+    repo.stage('a.txt', 'a\n');
+    const recorded = repo.genius(['--no-banner', '--record', '--fixtures', fixtures], { COMMIT_GENIUS_STUB_MESSAGE: 'feat: recorded message' });
+    assert.equal(recorded.status, 0, recorded.stderr);
+
+    // Stage the same change again, so the prompt is the same
+    repo.git('reset', '-q', '--soft', 'HEAD~1');
+    const replayed = repo.genius(['--no-banner', '--provider', 'replay', '--fixtures', fixtures]);
+
+    assert.equal(replayed.status, 0, replayed.stderr);
+    assert.equal(repo.lastMessage(), 'feat: recorded message');
+  });
+
+  test('exits with 4 when a prompt has no fixture', () => {
+    repo.stage('a.txt', 'a\n');
+
+    const result = repo.genius(['--provider', 'replay', '--fixtures', path.join(repo.home, 'fixtures')]);
+
+    assert.equal(result.status, 4);
+    assert.match(result.stderr, /No fixture for this prompt/);
+  });
+});
+
+describe('model failures', () => {
+  // An OpenAI-compatible server that answers with the given statuses in order, then with a message
+  let server: http.Server;
+  let requests: string[];
+  let statuses: number[];
+
+  beforeEach(async () => {
+    requests = [];
+    statuses = [];
+    server = http.createServer((request, response) => {
+      let body = '';
+      request.on('data', data => body += data);
+      request.on('end', () => {
+        const { model } = JSON.parse(body);
+        requests.push(model);
+        const status = statuses.shift();
+        if (status) {
+          response.writeHead(status, { 'retry-after': '0' });
+          response.end('{"error":"failed"}');
+          return;
+        }
+        response.writeHead(200, { 'content-type': 'application/json' });
+        response.end(JSON.stringify({ choices: [{ message: { content: `fix: answered by ${model}` } }] }));
+      });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  });
+
+  afterEach(() => {
+    server.close();
+  });
+
+  function openai(env: NodeJS.ProcessEnv = {}): NodeJS.ProcessEnv {
+    return {
+      COMMIT_GENIUS_PROVIDER: 'openai',
+      COMMIT_GENIUS_OPENAI_BASE_URL: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+      COMMIT_GENIUS_OPENAI_MODEL: 'primary',
+      ...env
+    };
+  }
+
+  test('retries a server error', async () => {
+    repo.stage('a.txt', 'a\n');
+    statuses = [503];
+
+    const result = await repo.geniusAsync(['--no-banner'], openai());
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(requests, ['primary', 'primary']);
+    assert.equal(repo.lastMessage(), 'fix: answered by primary');
+  });
+
+  test('falls back to the next model', async () => {
+    repo.stage('a.txt', 'a\n');
+    statuses = [401, 500];
+
+    const result = await repo.geniusAsync(['--json', '--no-banner'], openai({
+      COMMIT_GENIUS_FALLBACK_MODELS: 'second',
+      COMMIT_GENIUS_MAX_RETRIES: '1'
+    }));
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(requests, ['primary', 'second', 'second']);
+    assert.equal(JSON.parse(result.stdout).model, 'second');
+  });
+
+  test('skips a fallback model without an API key', async () => {
+    repo.stage('a.txt', 'a\n');
+    const env = openai({ COMMIT_GENIUS_FALLBACK_MODELS: 'gemini:gemini-2.5-pro,second' });
+
+    const dryRun = await repo.geniusAsync(['--dry-run', '--no-cache'], env);
+    assert.equal(dryRun.status, 0, dryRun.stderr);
+    assert.doesNotMatch(dryRun.stdout + dryRun.stderr, /Skipping fallback/);
+
+    statuses = [401];
+    const result = await repo.geniusAsync(['--no-banner', '--no-cache'], env);
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.match(result.stderr, /Skipping fallback gemini: gemini-2\.5-pro: API key is required for provider "gemini"/);
+    assert.deepEqual(requests, ['primary', 'primary', 'second']);
+    assert.equal(repo.lastMessage(), 'fix: answered by second');
+  });
+
+  test('reuses the answer of a fallback model for the requested model', async () => {
+    repo.stage('a.txt', 'a\n');
+    statuses = [401];
+
+    const result = await repo.libraryAsync(`
+      const provider = lib.createProvider('openai');
+      for (let i = 0; i < 2; i++) {
+        const { message, cached } = await lib.generate({ provider, banner: false });
+        console.log(message, cached);
+      }
+    `, openai({ COMMIT_GENIUS_FALLBACK_MODELS: 'second' }));
+
+    assert.equal(result.status, 0, result.stderr);
+    assert.deepEqual(result.stdout.trim().split('\n'), ['fix: answered by second false', 'fix: answered by second true']);
+    assert.deepEqual(requests, ['primary', 'second']);
+  });
+
+  test('summarizes a large diff once and commits the message of the dry run', async () => {
+    const lines = Array.from({ length: 1500 }, (_, index) => `export const value${index} = ${index};`);
+    repo.stage('values.ts', `${lines.join('\n')}\n`);
+
+    const dryRun = await repo.geniusAsync(['--json', '--dry-run', '--no-banner'], openai());
+    assert.equal(dryRun.status, 0, dryRun.stderr);
+    assert.match(dryRun.stderr, /Summarizing in \d+ chunk/);
+    const summarized = requests.length;
+
+    const committed = await repo.geniusAsync(['--json', '--no-banner'], openai());
+
+    assert.equal(committed.status, 0, committed.stderr);
+    assert.equal(requests.length, summarized);
+    assert.equal(JSON.parse(committed.stdout).cached, true);
+    assert.equal(repo.lastMessage(), JSON.parse(dryRun.stdout).message);
+  });
+
+  test('explains a rejected API key', async () => {
+    repo.stage('a.txt', 'a\n');
+    statuses = [401];
+
+    const result = await repo.geniusAsync(['--json'], openai());
+
+    assert.equal(result.status, 4);
+    const { error } = JSON.parse(result.stdout);
+    assert.equal(error.kind, 'auth');
+    assert.match(error.hint, /API key was rejected/);
+    assert.deepEqual(requests, ['primary']);
+  });
+});